@@ -0,0 +1,87 @@
+import React from 'react';
+import { CashOptions, CashSession, Player } from '../types.ts';
+
+interface Props {
+    user: Player;
+    session: CashSession;
+    options: CashOptions;
+    net: number;
+    canChangeStack: boolean; // Between hands, or while sitting out (chips then wait for the next hand)
+    onRebuy: (amount: number) => void;
+    onTopUp: (amount: number) => void;
+    onSitOut: (sittingOut: boolean) => void;
+    onLeave: () => void;
+}
+
+export const CashPanel: React.FC<Props> = ({ user, session, options, net, canChangeStack, onRebuy, onTopUp, onSitOut, onLeave }) => {
+    const stack = user.chips + session.pendingChips;
+    const isBusted = stack === 0;
+    const maxTopUp = Math.max(0, options.maxBuyIn - stack);
+    const [amount, setAmount] = React.useState(options.maxBuyIn);
+
+    // Keep the amount inside what the next rebuy or top-up allows
+    const min = isBusted ? options.minBuyIn : Math.min(1, maxTopUp);
+    const max = isBusted ? options.maxBuyIn : maxTopUp;
+    const clamped = Math.min(max, Math.max(min, amount));
+
+    return (
+        <div className='absolute top-4 left-4 z-[60] bg-gray-900/90 border border-gray-700 rounded-lg p-3 text-xs font-mono shadow-lg w-56'>
+            <div className='flex justify-between text-gray-400'>
+                <span>Bought in</span>
+                <span className='text-white'>${session.totalBuyIn}</span>
+            </div>
+            <div className='flex justify-between text-gray-400'>
+                <span>Net</span>
+                <span className={net >= 0 ? 'text-green-400 font-bold' : 'text-red-400 font-bold'}>
+                    {net >= 0 ? '+' : '-'}${Math.abs(net)}
+                </span>
+            </div>
+            <div className='flex justify-between text-gray-500 mb-2'>
+                <span>Rebuys / top-ups</span>
+                <span>
+                    {session.rebuys} / {session.topUps}
+                </span>
+            </div>
+
+            {session.pendingChips > 0 && (
+                <div className='flex justify-between text-yellow-500 mb-2'>
+                    <span>Next hand</span>
+                    <span>+${session.pendingChips}</span>
+                </div>
+            )}
+
+            {canChangeStack && max > 0 && (
+                <div className='flex gap-1 mb-2'>
+                    <input
+                        type='number'
+                        min={min}
+                        max={max}
+                        value={clamped}
+                        onChange={(e) => setAmount(parseInt(e.target.value) || 0)}
+                        className='w-20 rounded bg-gray-700 text-white px-1 py-0.5'
+                    />
+                    <button
+                        onClick={() => (isBusted ? onRebuy(clamped) : onTopUp(clamped))}
+                        className='flex-1 bg-yellow-600 hover:bg-yellow-500 text-white font-bold rounded px-2 py-0.5'>
+                        {isBusted ? 'Rebuy' : 'Top Up'}
+                    </button>
+                </div>
+            )}
+
+            <div className='flex gap-1'>
+                <button
+                    onClick={() => onSitOut(!user.sittingOut)}
+                    disabled={isBusted}
+                    className='flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 rounded px-2 py-1'>
+                    {user.sittingOut ? 'Sit In' : 'Sit Out'}
+                </button>
+                <button
+                    onClick={onLeave}
+                    disabled={!canChangeStack}
+                    className='flex-1 bg-gray-700 hover:bg-red-900 disabled:opacity-50 text-gray-200 rounded px-2 py-1'>
+                    Leave
+                </button>
+            </div>
+        </div>
+    );
+};
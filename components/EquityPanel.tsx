@@ -0,0 +1,21 @@
+import React from 'react';
+import { PlayerEquity } from '../utils/equity.ts';
+
+interface Props {
+    equity: PlayerEquity;
+    opponents: number;
+}
+
+// The user's chance of winning against random hands for every opponent still in the pot
+export const EquityPanel: React.FC<Props> = ({ equity, opponents }) => (
+    <div className='absolute bottom-48 right-4 z-40 bg-gray-900/80 border border-gray-700 rounded-lg px-3 py-2 text-xs font-mono shadow-lg'>
+        <div className='text-gray-400 uppercase tracking-wider'>Your Equity</div>
+        <div className='text-yellow-400 font-bold text-lg'>{equity.equity.toFixed(1)}%</div>
+        <div className='text-gray-500'>
+            Win {equity.win.toFixed(1)}% · Tie {equity.tie.toFixed(1)}%
+        </div>
+        <div className='text-gray-500'>
+            vs {opponents} random hand{opponents === 1 ? '' : 's'}
+        </div>
+    </div>
+);
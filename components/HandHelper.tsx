@@ -0,0 +1,53 @@
+import React from 'react';
+import { Card } from '../types.ts';
+import { evaluateHand } from '../utils/pokerLogic.ts';
+import { findDraws, outsEquity } from '../utils/draws.ts';
+
+interface Props {
+    hand: Card[];
+    board: Card[];
+    pot: number;
+    callAmount: number; // What the user must put in to call, 0 when they can check
+}
+
+const formatCards = (cards: Card[]) => cards.map((c) => `${c.display}${c.suit}`).join(' ');
+
+const STRAIGHT_DRAWS = { OPEN_ENDED: 'Open-ended straight draw', GUTSHOT: 'Gutshot straight draw' };
+
+// Reads the board for the user: their made hand, any straight or flush draws with the outs, cards that would
+// fill up a set or two pair, and the pot odds
+export const HandHelper: React.FC<Props> = ({ hand, board, pot, callAmount }) => {
+    const made = React.useMemo(() => evaluateHand(hand, board).name, [hand, board]);
+    const draws = React.useMemo(() => findDraws(hand, board), [hand, board]);
+
+    const drawNames = [draws.flushDraw && 'Flush draw', draws.straightDraw && STRAIGHT_DRAWS[draws.straightDraw]].filter(Boolean);
+    const potOdds = callAmount > 0 ? (callAmount / (pot + callAmount)) * 100 : null;
+
+    return (
+        <div className='absolute bottom-48 left-4 z-40 max-w-xs bg-gray-900/80 border border-gray-700 rounded-lg px-3 py-2 text-xs font-mono shadow-lg'>
+            <div className='text-gray-400 uppercase tracking-wider'>Your Hand</div>
+            <div className='text-yellow-400 font-bold text-base'>{made}</div>
+            {drawNames.length > 0 && (
+                <div className='mt-1'>
+                    <div className='text-white'>{drawNames.join(' + ')}</div>
+                    <div className='text-gray-400'>
+                        {draws.outs.length} out{draws.outs.length === 1 ? '' : 's'} (~{outsEquity(draws.outs.length, board)}%{' '}
+                        {board.length === 3 ? 'by the river' : 'on the river'})
+                    </div>
+                    <div className='text-gray-500 break-words'>{formatCards(draws.outs)}</div>
+                </div>
+            )}
+            {draws.improvements.length > 0 && (
+                <div className='mt-1'>
+                    <div className='text-white'>Full house or better</div>
+                    <div className='text-gray-500 break-words'>{formatCards(draws.improvements)}</div>
+                </div>
+            )}
+            {potOdds !== null && (
+                <div className='mt-1 text-gray-300'>
+                    Pot odds: call {callAmount} to win {pot} · need {potOdds.toFixed(0)}% equity
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { HandHistory } from '../types.ts';
+import { parseHandHistoryFile } from '../utils/handHistory.ts';
+
+interface Props {
+    hands: HandHistory[]; // This session's finished hands
+    onReplay: (hand: HandHistory) => void;
+    onClose: () => void;
+}
+
+// Pot winners of a hand, for the list
+const describeWinners = (hand: HandHistory) => {
+    const won = new Map<number, number>();
+    hand.events.forEach((e) => e.type === 'AWARD' && won.set(e.playerId, (won.get(e.playerId) ?? 0) + e.amount));
+    return [...won]
+        .map(([id, amount]) => `${hand.seats.find((s) => s.playerId === id)?.name ?? `Seat ${id + 1}`} +$${amount}`)
+        .join(', ');
+};
+
+export const HandList: React.FC<Props> = ({ hands, onReplay, onClose }) => {
+    const [imported, setImported] = React.useState<HandHistory[]>([]);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const importFile = async (file: File) => {
+        try {
+            setImported(parseHandHistoryFile(await file.text()));
+            setError(null);
+        } catch (e) {
+            setImported([]);
+            setError(e instanceof Error ? e.message : 'Could not read the file.');
+        }
+    };
+
+    const renderHands = (list: HandHistory[]) => (
+        <div className='flex flex-col gap-2'>
+            {[...list].reverse().map((hand) => (
+                <button
+                    key={hand.id}
+                    onClick={() => onReplay(hand)}
+                    className='w-full flex justify-between gap-3 px-3 py-2 rounded bg-gray-800 hover:bg-gray-700 border border-gray-700 text-left text-sm'>
+                    <span className='font-mono text-gray-300'>
+                        #{hand.handNumber} <span className='text-gray-500'>{hand.smallBlind}/{hand.bigBlind}</span>
+                    </span>
+                    <span className='text-yellow-500 truncate'>{describeWinners(hand)}</span>
+                </button>
+            ))}
+        </div>
+    );
+
+    return (
+        <div className='fixed inset-0 z-[65] bg-black/80 flex items-center justify-center p-4'>
+            <div className='bg-gray-900 border border-gray-700 rounded-lg shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col'>
+                <div className='flex justify-between items-center p-4 border-b border-gray-700'>
+                    <h3 className='text-yellow-500 font-bold uppercase tracking-wider'>Hand Replays</h3>
+                    <button
+                        onClick={onClose}
+                        className='text-gray-400 hover:text-white text-sm'>
+                        Close
+                    </button>
+                </div>
+                <div className='p-4 overflow-y-auto flex flex-col gap-2'>
+                    {hands.length === 0 && <p className='text-gray-500 text-sm'>No finished hands this session yet.</p>}
+                    {renderHands(hands)}
+
+                    <label className='mt-4 text-sm text-gray-300'>
+                        <span className='font-bold'>Import JSON hand file</span>
+                        <input
+                            type='file'
+                            accept='application/json,.json'
+                            onChange={(e) => e.target.files?.[0] && importFile(e.target.files[0])}
+                            className='mt-1 block w-full text-xs text-gray-400'
+                        />
+                    </label>
+                    {error && <p className='text-red-400 text-xs'>{error}</p>}
+                    {renderHands(imported)}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,143 @@
+import React from 'react';
+import { HandHistory, PlayerRole } from '../types.ts';
+import { buildReplayFrames } from '../utils/replay.ts';
+import { PlayerSeat } from './PlayerSeat.tsx';
+import { PokerTable, seatPosition } from './PokerTable.tsx';
+
+interface Props {
+    hand: HandHistory;
+    onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+const STEP_MS = 1200; // Time per frame at 1x
+
+const buttonClass = 'px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-200 text-sm font-bold';
+
+export const HandReplayer: React.FC<Props> = ({ hand, onClose }) => {
+    const frames = React.useMemo(() => buildReplayFrames(hand), [hand]);
+    const [index, setIndex] = React.useState(0);
+    const [isPlaying, setIsPlaying] = React.useState(false);
+    const [speed, setSpeed] = React.useState(1);
+    const [showAll, setShowAll] = React.useState(false);
+
+    const lastIndex = frames.length - 1;
+
+    // Autoplay moves one frame per tick and stops at the end of the hand
+    React.useEffect(() => {
+        if (!isPlaying) return;
+        if (index >= lastIndex) {
+            setIsPlaying(false);
+            return;
+        }
+        const timer = setTimeout(() => setIndex((i) => Math.min(lastIndex, i + 1)), STEP_MS / speed);
+        return () => clearTimeout(timer);
+    }, [isPlaying, index, speed, lastIndex]);
+
+    const frame = frames[index];
+    if (!frame) return null;
+
+    const userSeat = hand.seats.find((s) => s.role === PlayerRole.USER);
+    const userIndex = userSeat ? userSeat.playerId : 0;
+    const step = (delta: number) => {
+        setIsPlaying(false);
+        setIndex((i) => Math.min(lastIndex, Math.max(0, i + delta)));
+    };
+    const togglePlay = () => {
+        if (index >= lastIndex) setIndex(0); // Start over once the hand has played out
+        setIsPlaying(!isPlaying || index >= lastIndex);
+    };
+
+    return (
+        <div className='fixed inset-0 z-[70] bg-gray-950 overflow-hidden'>
+            <div className='absolute top-4 left-4 z-50 text-xs font-mono text-gray-400'>
+                <div className='text-yellow-500 font-bold uppercase tracking-wider'>Replay · Hand #{hand.handNumber}</div>
+                <div>
+                    Blinds {hand.smallBlind}/{hand.bigBlind}
+                    {hand.ante > 0 && ` · Ante ${hand.ante}`} · Seed {hand.handSeed}
+                </div>
+            </div>
+            <button
+                onClick={onClose}
+                className='absolute top-4 right-4 z-50 px-3 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs rounded border border-gray-700 transition-colors'>
+                Close Replay
+            </button>
+
+            <PokerTable
+                communityCards={frame.communityCards}
+                pot={frame.pot}
+                message={frame.message}
+            />
+
+            {frame.players
+                .filter((p) => hand.seats.some((s) => s.playerId === p.id))
+                .map((p) => (
+                    <PlayerSeat
+                        key={p.id}
+                        player={p}
+                        isActive={frame.activePlayerIndex === p.id}
+                        isDealer={hand.dealerIndex === p.id}
+                        phase={frame.phase}
+                        positionStyle={seatPosition(p.id, userIndex, hand.seatCount)}
+                        revealCards={showAll || p.role === PlayerRole.USER || frame.shownIds.includes(p.id)}
+                    />
+                ))}
+
+            <div className='fixed bottom-0 left-0 right-0 bg-gray-900/90 border-t border-gray-700 p-4 flex flex-wrap items-center justify-center gap-3 z-50'>
+                <button
+                    onClick={() => step(-lastIndex)}
+                    disabled={index === 0}
+                    className={buttonClass}>
+                    ⏮
+                </button>
+                <button
+                    onClick={() => step(-1)}
+                    disabled={index === 0}
+                    className={buttonClass}>
+                    ◀ Back
+                </button>
+                <button
+                    onClick={togglePlay}
+                    className='px-5 py-1 rounded bg-yellow-600 hover:bg-yellow-500 text-white text-sm font-bold w-24'>
+                    {isPlaying ? 'Pause' : index >= lastIndex ? 'Replay' : 'Play'}
+                </button>
+                <button
+                    onClick={() => step(1)}
+                    disabled={index >= lastIndex}
+                    className={buttonClass}>
+                    Next ▶
+                </button>
+                <button
+                    onClick={() => step(lastIndex)}
+                    disabled={index >= lastIndex}
+                    className={buttonClass}>
+                    ⏭
+                </button>
+                <span className='text-xs font-mono text-gray-400 w-16 text-center'>
+                    {index + 1} / {frames.length}
+                </span>
+                <select
+                    value={speed}
+                    onChange={(e) => setSpeed(parseFloat(e.target.value))}
+                    className='rounded bg-gray-700 text-white text-sm px-2 py-1'>
+                    {SPEEDS.map((s) => (
+                        <option
+                            key={s}
+                            value={s}>
+                            {s}x
+                        </option>
+                    ))}
+                </select>
+                <label className='flex items-center gap-2 text-sm text-gray-300'>
+                    <input
+                        type='checkbox'
+                        checked={showAll}
+                        onChange={(e) => setShowAll(e.target.checked)}
+                        className='accent-yellow-500'
+                    />
+                    Show all hole cards
+                </label>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Card, HandHistory } from '../types.ts';
+import { reviewHand, ReviewVerdict } from '../utils/handReview.ts';
+import { createRng, deriveSeed } from '../utils/random.ts';
+import { explainReview, ReviewModel } from '../services/handReviewService.ts';
+
+interface Props {
+    hand: HandHistory;
+    model: ReviewModel | null; // Offers an explanation when set; the computed review works without it
+    onClose: () => void;
+}
+
+const REVIEW_RANDOM_STREAM = 3; // Keeps the review's samples apart from the deck, bots and live equity
+
+const VERDICT_STYLES: Record<ReviewVerdict, { label: string; className: string }> = {
+    GOOD: { label: 'Good', className: 'bg-green-900/60 text-green-300 border-green-700' },
+    CLOSE: { label: 'Close', className: 'bg-yellow-900/60 text-yellow-300 border-yellow-700' },
+    MISTAKE: { label: 'Mistake', className: 'bg-red-900/60 text-red-300 border-red-700' },
+    BLUFF: { label: 'Needs folds', className: 'bg-indigo-900/60 text-indigo-300 border-indigo-700' },
+};
+
+const formatCards = (cards: Card[]) => cards.map((c) => `${c.display}${c.suit}`).join(' ');
+
+export const HandReview: React.FC<Props> = ({ hand, model, onClose }) => {
+    const reviews = React.useMemo(() => reviewHand(hand, createRng(deriveSeed(hand.handSeed, REVIEW_RANDOM_STREAM))), [hand]);
+    const [explanation, setExplanation] = React.useState<string | null>(null);
+    const [isExplaining, setIsExplaining] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const explain = async () => {
+        if (!model) return;
+        setIsExplaining(true);
+        setError(null);
+        try {
+            setExplanation(await explainReview(model.model, hand, reviews));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'The model could not be reached.');
+        } finally {
+            setIsExplaining(false);
+        }
+    };
+
+    return (
+        <div className='fixed inset-0 z-[65] bg-black/80 flex items-center justify-center p-4'>
+            <div className='bg-gray-900 border border-gray-700 rounded-lg shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col'>
+                <div className='flex justify-between items-center p-4 border-b border-gray-700'>
+                    <h3 className='text-yellow-500 font-bold uppercase tracking-wider'>Review · Hand #{hand.handNumber}</h3>
+                    <button
+                        onClick={onClose}
+                        className='text-gray-400 hover:text-white text-sm'>
+                        Close
+                    </button>
+                </div>
+                <div className='p-4 overflow-y-auto flex flex-col gap-3'>
+                    {reviews.length === 0 && <p className='text-gray-500 text-sm'>You made no decisions against an opponent this hand.</p>}
+                    {reviews.map((r, i) => {
+                        const verdict = VERDICT_STYLES[r.verdict];
+                        return (
+                            <div
+                                key={i}
+                                className='rounded bg-gray-800 border border-gray-700 px-3 py-2 text-sm'>
+                                <div className='flex justify-between items-center gap-3'>
+                                    <span className='font-bold text-gray-200'>
+                                        {r.phase.replace('_', '-')}: {r.action}
+                                        {r.amount > 0 && <span className='text-gray-400 font-normal'> ({r.amount})</span>}
+                                        {r.board.length > 0 && <span className='ml-2 font-mono font-normal text-gray-400'>[{formatCards(r.board)}]</span>}
+                                    </span>
+                                    <span className={`px-2 py-0.5 rounded border text-xs font-bold ${verdict.className}`}>{verdict.label}</span>
+                                </div>
+                                <div className='mt-1 grid grid-cols-4 gap-2 font-mono text-xs text-gray-400'>
+                                    <span>Pot {r.pot}</span>
+                                    <span>Pot odds {r.potOdds === null ? '—' : `${r.potOdds.toFixed(0)}%`}</span>
+                                    <span>Equity {r.equity.toFixed(0)}%</span>
+                                    <span className={r.ev >= 0 ? 'text-green-400' : 'text-red-400'}>
+                                        EV {r.ev >= 0 ? '+' : ''}
+                                        {r.ev.toFixed(0)}
+                                    </span>
+                                </div>
+                                <div className='mt-1 text-gray-300'>{r.note}</div>
+                                <div className='mt-1 text-xs text-gray-500'>vs {r.opponents.map((o) => `${o.name} (top ${o.top.toFixed(0)}%)`).join(', ')}</div>
+                            </div>
+                        );
+                    })}
+                    <p className='text-xs text-gray-500'>
+                        Equity is estimated against ranges read from the opponents' betting, not their actual cards. EV counts this street only.
+                    </p>
+
+                    {model && reviews.length > 0 && !explanation && (
+                        <button
+                            onClick={explain}
+                            disabled={isExplaining}
+                            className='self-start px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-200 text-sm font-bold'>
+                            {isExplaining ? 'Asking…' : `Explain with ${model.label}`}
+                        </button>
+                    )}
+                    {error && <p className='text-red-400 text-xs'>{error}</p>}
+                    {explanation && <p className='rounded bg-gray-800/60 border border-gray-700 px-3 py-2 text-sm text-gray-200 whitespace-pre-line'>{explanation}</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { GeminiClient } from '../services/geminiClient.ts';
+
+interface Props {
+    client: GeminiClient;
+}
+
+// Live counters for the shared Gemini client: what was sent, what failed and why, and how long calls took
+export const ModelDebugPanel: React.FC<Props> = ({ client }) => {
+    const stats = React.useSyncExternalStore(client.subscribe, client.getStats);
+    const { options } = client;
+    const average = stats.successes > 0 ? Math.round(stats.totalLatencyMs / stats.successes) : 0;
+
+    const rows: [string, React.ReactNode][] = [
+        ['Calls', `${stats.calls} / ${options.sessionBudget}`],
+        ['Succeeded', stats.successes],
+        ['Failed', stats.failures],
+        ['Timed out', stats.timeouts],
+        ['Rate limited (429)', stats.rateLimited],
+        ['Throttled locally', stats.throttled],
+        ['Over budget', stats.overBudget],
+        ['Fallback decisions', stats.fallbacks],
+        ['Latency last / avg / max', `${stats.lastLatencyMs} / ${average} / ${stats.maxLatencyMs} ms`],
+    ];
+
+    return (
+        <div className='absolute top-14 right-4 z-[60] w-64 bg-gray-900/90 border border-gray-700 rounded-lg px-3 py-2 text-xs font-mono shadow-lg'>
+            <div className='text-yellow-500 font-bold uppercase tracking-wider mb-1'>Gemini</div>
+            {rows.map(([label, value]) => (
+                <div
+                    key={label}
+                    className='flex justify-between gap-2'>
+                    <span className='text-gray-400'>{label}</span>
+                    <span className='text-white'>{value}</span>
+                </div>
+            ))}
+            <div className='mt-1 text-gray-500'>
+                {options.model} · {options.timeoutMs} ms timeout · {options.burst} burst, {options.callsPerMinute}/min
+            </div>
+        </div>
+    );
+};
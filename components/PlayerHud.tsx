@@ -0,0 +1,73 @@
+import React from 'react';
+import { PlayerTendencies } from '../types.ts';
+
+interface Props {
+    tendencies: PlayerTendencies;
+}
+
+// A count as a whole percentage of its chances, or a dash before the first chance
+const percent = (count: number, chances: number) => (chances > 0 ? `${Math.round((count / chances) * 100)}%` : '—');
+
+const formatAf = (t: PlayerTendencies) => {
+    if (t.calls === 0) return t.bets > 0 ? '∞' : '—';
+    return (t.bets / t.calls).toFixed(1);
+};
+
+// Session stats under a seat: VPIP/PFR/AF and the sample size, with every stat and its counts on click
+export const PlayerHud: React.FC<Props> = ({ tendencies: t }) => {
+    const [isOpen, setIsOpen] = React.useState(false);
+
+    const rows: [string, string, string][] = [
+        ['Hands', String(t.hands), ''],
+        ['VPIP', percent(t.vpip, t.hands), `${t.vpip}/${t.hands}`],
+        ['PFR', percent(t.pfr, t.hands), `${t.pfr}/${t.hands}`],
+        ['3-Bet', percent(t.threeBets, t.threeBetChances), `${t.threeBets}/${t.threeBetChances}`],
+        ['AF', formatAf(t), `${t.bets} bets / ${t.calls} calls`],
+        ['C-Bet', percent(t.cbets, t.cbetChances), `${t.cbets}/${t.cbetChances}`],
+        ['Fold to C-Bet', percent(t.foldsToCbet, t.cbetsFaced), `${t.foldsToCbet}/${t.cbetsFaced}`],
+        ['WTSD', percent(t.showdowns, t.sawFlop), `${t.showdowns}/${t.sawFlop} flops`],
+        ['W$SD', percent(t.showdownsWon, t.showdowns), `${t.showdownsWon}/${t.showdowns}`],
+    ];
+
+    return (
+        <div className='relative mt-1'>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                title='VPIP / PFR / AF (hands) · click for details'
+                className='bg-black/70 hover:bg-black/90 px-2 py-0.5 rounded text-[10px] font-mono text-cyan-300 border border-gray-600'>
+                {percent(t.vpip, t.hands)}/{percent(t.pfr, t.hands)}/{formatAf(t)} <span className='text-gray-400'>({t.hands})</span>
+            </button>
+            {isOpen && (
+                <div className='absolute left-1/2 -translate-x-1/2 top-full mt-1 z-[45] w-56 bg-gray-900/95 border border-gray-700 rounded-lg px-3 py-2 text-xs font-mono shadow-2xl'>
+                    <div className='flex justify-between items-center mb-1'>
+                        <span className='text-yellow-500 font-bold truncate'>{t.name}</span>
+                        <button
+                            onClick={() => setIsOpen(false)}
+                            className='text-gray-400 hover:text-white'>
+                            ×
+                        </button>
+                    </div>
+                    {rows.map(([label, value, counts]) => (
+                        <div
+                            key={label}
+                            className='flex justify-between gap-2'>
+                            <span className='text-gray-400'>{label}</span>
+                            <span>
+                                <span className='text-white'>{value}</span>
+                                {counts && <span className='ml-1 text-gray-500'>{counts}</span>}
+                            </span>
+                        </div>
+                    ))}
+                    {t.shownHands.length > 0 && (
+                        <div className='mt-1 pt-1 border-t border-gray-700 text-gray-400'>
+                            Shown:{' '}
+                            {t.shownHands
+                                .map((h) => `${h.cards.map((c) => `${c.display}${c.suit}`).join('')}${h.won ? ' ✓' : ''}`)
+                                .join(', ')}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -6,8 +6,10 @@
  * @FilePath: \religious-imsd:\work\447519276.github.io\components\PlayerSeat.tsx
  */
 import React from 'react';
-import { Player, PlayerRole, PlayerStatus, GamePhase } from '../types.ts';
+import { Player, PlayerRole, PlayerStatus, GamePhase, PlayerTendencies } from '../types.ts';
 import { CardComponent } from './CardComponent.tsx';
+import { PlayerHud } from './PlayerHud.tsx';
+import { PERSONALITY_PROFILES } from '../utils/personalities.ts';
 
 interface Props {
     player: Player;
@@ -15,20 +17,23 @@ interface Props {
     isDealer: boolean;
     phase: GamePhase;
     positionStyle: React.CSSProperties;
+    revealCards?: boolean; // Overrides the usual rule for when a bot's cards are face up (replays, all-in runouts)
+    equity?: number; // Shown while an all-in hand is run out
+    tendencies?: PlayerTendencies; // Session stats for the HUD, once the player has finished a hand
 }
 
-export const PlayerSeat: React.FC<Props> = ({ player, isActive, isDealer, phase, positionStyle }) => {
+export const PlayerSeat: React.FC<Props> = ({ player, isActive, isDealer, phase, positionStyle, revealCards, equity, tendencies }) => {
     const isUser = player.role === PlayerRole.USER;
     const isShowdown = phase === GamePhase.SHOWDOWN;
 
     // Logic to hide cards: Hide if it's a bot AND not showdown AND not folded (folded usually mucks)
     // If folded, we might hide or dim. Let's just dim and show back.
-    const hideCards = !isUser && !isShowdown;
+    const hideCards = revealCards !== undefined ? !revealCards : !isUser && !isShowdown;
 
     return (
         <div
             className={`absolute flex flex-col items-center transition-all duration-300 ${
-                player.status === PlayerStatus.FOLDED ? 'opacity-50 grayscale' : ''
+                player.status === PlayerStatus.FOLDED || player.status === PlayerStatus.SITTING_OUT ? 'opacity-50 grayscale' : ''
             }`}
             style={positionStyle}>
             {/* Action Bubble */}
@@ -60,6 +65,16 @@ export const PlayerSeat: React.FC<Props> = ({ player, isActive, isDealer, phase,
       `}>
                 <span className='text-xs text-gray-400 font-bold max-w-[90%] truncate text-center'>{player.name}</span>
                 <span className='text-xs md:text-sm text-white font-mono font-bold'>${player.chips}</span>
+                {player.status === PlayerStatus.SITTING_OUT && <span className='text-[9px] text-gray-400 uppercase'>Sitting Out</span>}
+
+                {/* Personality Badge */}
+                {player.personality && (
+                    <div
+                        title={`${PERSONALITY_PROFILES[player.personality].label}: ${PERSONALITY_PROFILES[player.personality].description}`}
+                        className='absolute -left-3 -top-1 bg-indigo-600 text-white px-1.5 py-0.5 rounded text-[9px] font-black tracking-wide border border-indigo-300 shadow z-30'>
+                        {PERSONALITY_PROFILES[player.personality].badge}
+                    </div>
+                )}
 
                 {/* Highlighted Dealer Button */}
                 {isDealer && (
@@ -69,6 +84,12 @@ export const PlayerSeat: React.FC<Props> = ({ player, isActive, isDealer, phase,
                 )}
             </div>
 
+            {tendencies && <PlayerHud tendencies={tendencies} />}
+
+            {equity !== undefined && (
+                <div className='mt-1 bg-yellow-500/90 px-2 py-0.5 rounded-full text-black text-xs font-mono font-bold'>{equity.toFixed(1)}%</div>
+            )}
+
             {/* Current Round Bet */}
             {player.currentBet > 0 && (
                 <div className='mt-1 bg-black/60 px-2 py-0.5 rounded-full text-white text-xs font-mono border border-gray-500'>
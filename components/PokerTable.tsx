@@ -0,0 +1,39 @@
+import React from 'react';
+import { Card } from '../types.ts';
+import { CardComponent } from './CardComponent.tsx';
+
+interface Props {
+    communityCards: Card[];
+    pot: number;
+    message: string;
+}
+
+// Places seats around the oval, keeping the user's seat at the bottom
+export const seatPosition = (index: number, userIndex: number, seatCount: number): React.CSSProperties => {
+    const relativeIdx = (index - userIndex + seatCount) % seatCount;
+    const angleDeg = 90 + relativeIdx * (360 / seatCount);
+    const angleRad = (angleDeg * Math.PI) / 180;
+    return { left: `${50 + 42 * Math.cos(angleRad)}%`, top: `${50 + 35 * Math.sin(angleRad)}%`, transform: 'translate(-50%, -50%)' };
+};
+
+export const PokerTable: React.FC<Props> = ({ communityCards, pot, message }) => (
+    <div className='absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-[92%] h-[58%] md:w-[75%] md:h-[65%] felt-texture rounded-[200px] border-[14px] border-[#2e1a1a] shadow-[inset_0_0_100px_rgba(0,0,0,0.8)] flex items-center justify-center'>
+        <div className='flex gap-2'>
+            {communityCards.map((c, i) => (
+                <CardComponent
+                    key={i}
+                    card={c}
+                />
+            ))}
+            {Array.from({ length: 5 - communityCards.length }).map((_, i) => (
+                <div
+                    key={i}
+                    className='w-10 h-14 md:w-14 md:h-20 border border-white/10 rounded bg-black/5'></div>
+            ))}
+        </div>
+        <div className='absolute top-1/3 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center pointer-events-none'>
+            <div className='text-yellow-400 font-black text-2xl md:text-4xl drop-shadow-lg mb-1'>$ {pot}</div>
+            <div className='text-white/40 text-[10px] md:text-xs uppercase tracking-widest'>{message}</div>
+        </div>
+    </div>
+);
@@ -0,0 +1,363 @@
+import React from 'react';
+import { TableConfig, GameMode, TournamentOptions, BotStrategyKind, BotPersonality, OpenAiEndpoint } from '../types.ts';
+import {
+    MIN_SEATS,
+    MAX_SEATS,
+    randomizePersonalities,
+    resizeTable,
+    setAllPersonalities,
+    setAllStacks,
+    setAllStrategies,
+    validateTableConfig,
+} from '../utils/tableConfig.ts';
+import { PERSONALITY_PROFILES } from '../utils/personalities.ts';
+import { STRATEGY_LABELS } from '../services/botStrategy.ts';
+import { FIRST_ANTE_LEVEL } from '../utils/tournament.ts';
+import { parseSeed } from '../utils/random.ts';
+
+interface Props {
+    config: TableConfig;
+    onChange: (config: TableConfig) => void;
+    onStart: () => void;
+}
+
+const inputClass = 'mt-1 block w-full rounded-md bg-gray-700 border-transparent focus:border-yellow-500 text-white p-2 font-mono';
+
+// Reads a numeric input, treating an empty field as 0
+const toNumber = (value: string) => parseInt(value) || 0;
+
+export const SetupScreen: React.FC<Props> = ({ config, onChange, onStart }) => {
+    const errors = validateTableConfig(config);
+
+    const updateTournament = (changes: Partial<TournamentOptions>) => {
+        onChange({ ...config, tournament: { ...config.tournament, ...changes } });
+    };
+
+    const updateOpenAi = (changes: Partial<OpenAiEndpoint>) => {
+        onChange({ ...config, openAi: { ...config.openAi, ...changes } });
+    };
+
+    const usesOpenAi = config.seats.some((seat, i) => i !== config.userSeat && seat.strategy === BotStrategyKind.OPENAI);
+    const strategyOptions = Object.values(BotStrategyKind).map((kind) => (
+        <option
+            key={kind}
+            value={kind}>
+            {STRATEGY_LABELS[kind]}
+        </option>
+    ));
+
+    const personalityOptions = Object.values(BotPersonality).map((personality) => (
+        <option
+            key={personality}
+            value={personality}>
+            {PERSONALITY_PROFILES[personality].label} ({PERSONALITY_PROFILES[personality].difficulty})
+        </option>
+    ));
+
+    const updateSeat = (index: number, changes: Partial<TableConfig['seats'][number]>) => {
+        onChange({ ...config, seats: config.seats.map((seat, i) => (i === index ? { ...seat, ...changes } : seat)) });
+    };
+
+    return (
+        <div className='flex flex-col items-center justify-center min-h-screen bg-gray-900 text-white p-4 overflow-y-auto'>
+            <h1 className='text-4xl md:text-6xl font-bold mb-8 text-yellow-500'>Gemini Poker</h1>
+            <div className='bg-gray-800 p-8 rounded-lg shadow-2xl w-full max-w-2xl'>
+                <div className='flex gap-2 mb-6'>
+                    {[
+                        { mode: GameMode.CLASSIC, label: 'Classic (Fixed Blinds)' },
+                        { mode: GameMode.TOURNAMENT, label: 'Sit & Go Tournament' },
+                        { mode: GameMode.CASH, label: 'Cash Game' },
+                    ].map(({ mode, label }) => (
+                        <button
+                            key={mode}
+                            onClick={() => onChange({ ...config, mode })}
+                            className={`flex-1 py-2 rounded text-sm font-bold border transition-colors ${
+                                config.mode === mode ? 'bg-yellow-600 border-yellow-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                            }`}>
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className='grid grid-cols-2 md:grid-cols-4 gap-4 mb-6'>
+                    <label className='block'>
+                        <span className='text-gray-300 font-bold text-sm'>Seats</span>
+                        <input
+                            type='number'
+                            min={MIN_SEATS}
+                            max={MAX_SEATS}
+                            value={config.seatCount}
+                            onChange={(e) => onChange(resizeTable(config, toNumber(e.target.value)))}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className='block'>
+                        <span className='text-gray-300 font-bold text-sm'>Small Blind</span>
+                        <input
+                            type='number'
+                            value={config.smallBlind}
+                            onChange={(e) => onChange({ ...config, smallBlind: toNumber(e.target.value) })}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className='block'>
+                        <span className='text-gray-300 font-bold text-sm'>Big Blind</span>
+                        <input
+                            type='number'
+                            value={config.bigBlind}
+                            onChange={(e) => onChange({ ...config, bigBlind: toNumber(e.target.value) })}
+                            className={inputClass}
+                        />
+                    </label>
+                    {config.mode === GameMode.CLASSIC && (
+                        <label className='block'>
+                            <span className='text-gray-300 font-bold text-sm'>Ante</span>
+                            <input
+                                type='number'
+                                value={config.ante}
+                                onChange={(e) => onChange({ ...config, ante: toNumber(e.target.value) })}
+                                className={inputClass}
+                            />
+                        </label>
+                    )}
+                </div>
+
+                <label className='flex items-center gap-2 text-sm text-gray-300 mb-6'>
+                    <input
+                        type='checkbox'
+                        checked={config.showHandHelper}
+                        onChange={(e) => onChange({ ...config, showHandHelper: e.target.checked })}
+                        className='accent-yellow-500'
+                    />
+                    Show the hand helper (made hand, draws and pot odds)
+                </label>
+
+                {config.mode === GameMode.TOURNAMENT && (
+                    <div className='grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 p-3 rounded border border-gray-700'>
+                        <label className='block'>
+                            <span className='text-gray-300 font-bold text-sm'>Levels Change By</span>
+                            <select
+                                value={config.tournament.advanceBy}
+                                onChange={(e) => updateTournament({ advanceBy: e.target.value as TournamentOptions['advanceBy'] })}
+                                className={inputClass}>
+                                <option value='HANDS'>Hands</option>
+                                <option value='MINUTES'>Minutes</option>
+                            </select>
+                        </label>
+                        <label className='block'>
+                            <span className='text-gray-300 font-bold text-sm'>
+                                {config.tournament.advanceBy === 'HANDS' ? 'Hands' : 'Minutes'} per Level
+                            </span>
+                            <input
+                                type='number'
+                                value={config.tournament.levelLength}
+                                onChange={(e) => updateTournament({ levelLength: toNumber(e.target.value) })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className='flex items-center gap-2 text-sm text-gray-300 mt-5'>
+                            <input
+                                type='checkbox'
+                                checked={config.tournament.antes}
+                                onChange={(e) => updateTournament({ antes: e.target.checked })}
+                                className='accent-yellow-500'
+                            />
+                            Antes from level {FIRST_ANTE_LEVEL + 1}
+                        </label>
+                        <label className='flex items-center gap-2 text-sm text-gray-300 mt-5'>
+                            <input
+                                type='checkbox'
+                                checked={config.tournament.bigBlindAnte}
+                                disabled={!config.tournament.antes}
+                                onChange={(e) => updateTournament({ bigBlindAnte: e.target.checked })}
+                                className='accent-yellow-500'
+                            />
+                            Big-blind ante
+                        </label>
+                    </div>
+                )}
+
+                {config.mode === GameMode.CASH && (
+                    <div className='grid grid-cols-2 gap-4 mb-6 p-3 rounded border border-gray-700'>
+                        <label className='block'>
+                            <span className='text-gray-300 font-bold text-sm'>Min Buy-In ($)</span>
+                            <input
+                                type='number'
+                                value={config.cash.minBuyIn}
+                                onChange={(e) => onChange({ ...config, cash: { ...config.cash, minBuyIn: toNumber(e.target.value) } })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className='block'>
+                            <span className='text-gray-300 font-bold text-sm'>Max Buy-In ($)</span>
+                            <input
+                                type='number'
+                                value={config.cash.maxBuyIn}
+                                onChange={(e) => onChange({ ...config, cash: { ...config.cash, maxBuyIn: toNumber(e.target.value) } })}
+                                className={inputClass}
+                            />
+                        </label>
+                    </div>
+                )}
+
+                <div className='flex items-end gap-4 mb-4'>
+                    <label className='block flex-1'>
+                        <span className='text-gray-300 font-bold text-sm'>Starting Stack for Every Seat ($)</span>
+                        <input
+                            type='number'
+                            value={config.seats[0]?.stack ?? 0}
+                            onChange={(e) => onChange(setAllStacks(config, toNumber(e.target.value)))}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className='block'>
+                        <span className='text-gray-300 font-bold text-sm'>All Bots Play</span>
+                        <select
+                            value=''
+                            onChange={(e) => e.target.value && onChange(setAllStrategies(config, e.target.value as BotStrategyKind))}
+                            className={inputClass}>
+                            <option value=''>Choose…</option>
+                            {strategyOptions}
+                        </select>
+                    </label>
+                    <label className='block'>
+                        <span className='text-gray-300 font-bold text-sm'>All Bots Style</span>
+                        <select
+                            value=''
+                            onChange={(e) => {
+                                if (e.target.value === 'RANDOM') onChange(randomizePersonalities(config));
+                                else if (e.target.value) onChange(setAllPersonalities(config, e.target.value as BotPersonality));
+                            }}
+                            className={inputClass}>
+                            <option value=''>Choose…</option>
+                            <option value='RANDOM'>Random for each bot</option>
+                            {personalityOptions}
+                        </select>
+                    </label>
+                    <button
+                        onClick={() => onChange({ ...config, userSeat: Math.floor(Math.random() * config.seatCount) })}
+                        className='px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm rounded border border-gray-600 transition-colors'>
+                        Random Seat
+                    </button>
+                </div>
+
+                <div className='flex flex-col gap-2 mb-6 max-h-72 overflow-y-auto pr-1'>
+                    {config.seats.map((seat, i) => {
+                        const isUserSeat = i === config.userSeat;
+                        return (
+                            <div
+                                key={i}
+                                className={`flex items-center gap-3 p-2 rounded border ${
+                                    isUserSeat ? 'border-yellow-500 bg-yellow-900/20' : 'border-gray-700'
+                                }`}>
+                                <label className='flex items-center gap-2 w-24 text-xs text-gray-400 cursor-pointer'>
+                                    <input
+                                        type='radio'
+                                        name='userSeat'
+                                        checked={isUserSeat}
+                                        onChange={() => onChange({ ...config, userSeat: i })}
+                                        className='accent-yellow-500'
+                                    />
+                                    Seat {i + 1}
+                                </label>
+                                <input
+                                    type='text'
+                                    value={isUserSeat ? 'You' : seat.name}
+                                    disabled={isUserSeat}
+                                    onChange={(e) => updateSeat(i, { name: e.target.value })}
+                                    className='flex-1 rounded bg-gray-700 text-white p-1 px-2 text-sm disabled:opacity-60'
+                                />
+                                <select
+                                    value={seat.strategy}
+                                    disabled={isUserSeat}
+                                    onChange={(e) => updateSeat(i, { strategy: e.target.value as BotStrategyKind })}
+                                    className='w-40 rounded bg-gray-700 text-white p-1 px-2 text-sm disabled:opacity-30'>
+                                    {strategyOptions}
+                                </select>
+                                <select
+                                    value={seat.personality}
+                                    disabled={isUserSeat}
+                                    title={PERSONALITY_PROFILES[seat.personality].description}
+                                    onChange={(e) => updateSeat(i, { personality: e.target.value as BotPersonality })}
+                                    className='w-44 rounded bg-gray-700 text-white p-1 px-2 text-sm disabled:opacity-30'>
+                                    {personalityOptions}
+                                </select>
+                                <input
+                                    type='number'
+                                    value={seat.stack}
+                                    onChange={(e) => updateSeat(i, { stack: toNumber(e.target.value) })}
+                                    className='w-24 rounded bg-gray-700 text-white p-1 px-2 text-sm font-mono'
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {usesOpenAi && (
+                    <div className='grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 p-3 rounded border border-gray-700'>
+                        <label className='block'>
+                            <span className='text-gray-300 font-bold text-sm'>Endpoint Base URL</span>
+                            <input
+                                type='text'
+                                value={config.openAi.baseUrl}
+                                onChange={(e) => updateOpenAi({ baseUrl: e.target.value })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className='block'>
+                            <span className='text-gray-300 font-bold text-sm'>Model</span>
+                            <input
+                                type='text'
+                                value={config.openAi.model}
+                                onChange={(e) => updateOpenAi({ model: e.target.value })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className='block'>
+                            <span className='text-gray-300 font-bold text-sm'>API Key (optional)</span>
+                            <input
+                                type='password'
+                                value={config.openAi.apiKey}
+                                onChange={(e) => updateOpenAi({ apiKey: e.target.value })}
+                                className={inputClass}
+                            />
+                        </label>
+                    </div>
+                )}
+
+                <label className='block mb-6'>
+                    <span className='text-gray-300 font-bold text-sm'>Session Seed (optional)</span>
+                    <input
+                        type='text'
+                        value={config.seed ?? ''}
+                        placeholder='Random'
+                        onChange={(e) => onChange({ ...config, seed: parseSeed(e.target.value) ?? undefined })}
+                        className={inputClass}
+                    />
+                </label>
+
+                {errors.length > 0 && (
+                    <ul className='mb-4 text-xs text-red-400 list-disc list-inside'>
+                        {errors.map((err) => (
+                            <li key={err}>{err}</li>
+                        ))}
+                    </ul>
+                )}
+
+                <button
+                    onClick={onStart}
+                    disabled={errors.length > 0}
+                    className='w-full bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 disabled:hover:bg-yellow-600 text-white font-black py-4 rounded shadow-xl transition-all transform hover:scale-105'>
+                    Sit at the Table
+                </button>
+                <p className='mt-6 text-xs text-gray-500 text-center leading-relaxed'>
+                    Facing {config.seatCount - 1} AI opponent{config.seatCount === 2 ? '' : 's'}.
+                    {config.mode === GameMode.CASH
+                        ? ' Rebuy, top up, sit out or leave whenever you like; busted bots are replaced by fresh ones.'
+                        : ' The game only ends when you lose everything or you become the sole winner of all chips.'}
+                    {config.mode === GameMode.TOURNAMENT && ' Blinds rise every level and finishing places are recorded as players bust.'}
+                </p>
+            </div>
+        </div>
+    );
+};
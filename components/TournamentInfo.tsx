@@ -0,0 +1,49 @@
+import React from 'react';
+import { BlindSchedule, TournamentState } from '../types.ts';
+import { currentBlindLevel, untilNextLevel } from '../utils/tournament.ts';
+
+interface Props {
+    schedule: BlindSchedule;
+    tournament: TournamentState;
+}
+
+const formatClock = (ms: number) => {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const TournamentInfo: React.FC<Props> = ({ schedule, tournament }) => {
+    const [now, setNow] = React.useState(Date.now());
+
+    // Tick the level clock once a second when levels are timed
+    React.useEffect(() => {
+        if (schedule.advanceBy !== 'MINUTES') return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [schedule.advanceBy]);
+
+    const level = currentBlindLevel(schedule, tournament);
+    const remaining = untilNextLevel(schedule, tournament, now);
+
+    let nextLevelLabel = 'Final level';
+    if (remaining !== null) {
+        if (schedule.advanceBy === 'HANDS') {
+            nextLevelLabel = remaining === 0 ? 'Blinds up next hand' : `Next level in ${remaining} hand${remaining === 1 ? '' : 's'}`;
+        } else {
+            nextLevelLabel = remaining === 0 ? 'Blinds up next hand' : `Next level in ${formatClock(remaining)}`;
+        }
+    }
+
+    return (
+        <div className='absolute top-4 left-4 z-40 bg-gray-900/80 border border-gray-700 rounded-lg px-3 py-2 text-xs font-mono shadow-lg'>
+            <div className='text-yellow-500 font-bold uppercase tracking-wider'>Level {tournament.levelIndex + 1}</div>
+            <div className='text-white'>
+                Blinds {level.smallBlind}/{level.bigBlind}
+                {level.ante > 0 && <span className='text-gray-300'> · {level.bigBlindAnte ? 'BB ante' : 'Ante'} {level.ante}</span>}
+            </div>
+            <div className='text-gray-400'>{nextLevelLabel}</div>
+        </div>
+    );
+};
@@ -0,0 +1,36 @@
+// Times the reference and fast evaluators on the same random 7-card hands.
+// Run with `npm run bench:evaluator`.
+import { Card } from '../types.ts';
+import { createDeck, evaluateHand } from '../utils/pokerLogic.ts';
+import { encodeCards, evaluateScore } from '../utils/fastEvaluator.ts';
+import { createRng } from '../utils/random.ts';
+
+const HANDS = 200_000;
+const FAST_ROUNDS = 20; // The fast evaluator goes through the hands this many times to get a measurable time
+
+const random = createRng(42);
+const hands: Card[][] = [];
+for (let n = 0; n < HANDS; n++) {
+    hands.push(createDeck(random).slice(0, 7));
+}
+const encoded = hands.map(encodeCards);
+
+const time = (label: string, evaluations: number, run: () => number) => {
+    const start = performance.now();
+    const checksum = run();
+    const ms = performance.now() - start;
+    const perSecond = Math.round((evaluations / ms) * 1000);
+    console.log(`${label.padEnd(10)} ${evaluations} evaluations in ${ms.toFixed(0)} ms (${perSecond.toLocaleString()} / s, checksum ${checksum})`);
+    return perSecond;
+};
+
+const reference = time('reference', HANDS, () => hands.reduce((sum, h) => (sum + evaluateHand(h, []).score) % 1e9, 0));
+const fast = time('fast', HANDS * FAST_ROUNDS, () => {
+    let sum = 0;
+    for (let r = 0; r < FAST_ROUNDS; r++) {
+        sum = 0; // Each round should produce the reference checksum
+        for (const h of encoded) sum = (sum + evaluateScore(h)) % 1e9;
+    }
+    return sum;
+});
+console.log(`Speed-up: ${(fast / reference).toFixed(1)}x`);
@@ -0,0 +1,131 @@
+// Checks the Gemini client's timeout, rate limiting and budget against a local mock of the API, and that
+// a failing call falls back to the rules bot. Run with `npm run check:gemini-client`; no API key needed.
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createGeminiClient, GeminiClient, GeminiClientOptions, ModelCallStats } from '../services/geminiClient.ts';
+import { createGeminiStrategy } from '../services/geminiService.ts';
+import { withFallback } from '../services/botStrategy.ts';
+import { rulesStrategy } from '../services/rulesStrategy.ts';
+import { createInitialState, createPlayers, startHand } from '../utils/gameEngine.ts';
+import { DEFAULT_TABLE_CONFIG } from '../utils/tableConfig.ts';
+import { createRng } from '../utils/random.ts';
+
+type Reply = 'OK' | 'SLOW' | 'RATE_LIMITED';
+
+const OK_BODY = JSON.stringify({
+    candidates: [{ content: { role: 'model', parts: [{ text: '{"action":"CALL"}' }] }, finishReason: 'STOP' }],
+});
+const RATE_LIMITED_BODY = JSON.stringify({ error: { code: 429, message: 'Resource has been exhausted (e.g. check quota).', status: 'RESOURCE_EXHAUSTED' } });
+
+let reply: Reply = 'OK';
+let requests = 0;
+
+const server = createServer((req, res) => {
+    requests++;
+    req.resume();
+    req.on('end', () => {
+        if (reply === 'RATE_LIMITED') {
+            res.writeHead(429, { 'Content-Type': 'application/json' }).end(RATE_LIMITED_BODY);
+        } else {
+            const delay = reply === 'SLOW' ? 500 : 0;
+            setTimeout(() => res.writeHead(200, { 'Content-Type': 'application/json' }).end(OK_BODY), delay);
+        }
+    });
+});
+
+let failures = 0;
+const expect = (name: string, ok: boolean, detail: string) => {
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${name}${ok ? '' : ` (${detail})`}`);
+    if (!ok) failures++;
+};
+
+const expectStats = (name: string, client: GeminiClient, expected: Partial<ModelCallStats>) => {
+    const stats = client.getStats();
+    const wrong = Object.entries(expected).filter(([key, value]) => stats[key as keyof ModelCallStats] !== value);
+    expect(name, wrong.length === 0, wrong.map(([key, value]) => `${key} ${stats[key as keyof ModelCallStats]}, expected ${value}`).join('; '));
+};
+
+const attempt = async (client: GeminiClient) => {
+    try {
+        return await client.generate('Hello');
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+};
+
+const main = async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const options: GeminiClientOptions = {
+        apiKey: 'test-key',
+        model: 'gemini-2.5-flash',
+        baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        timeoutMs: 200,
+        burst: 2,
+        callsPerMinute: 1,
+        sessionBudget: 3,
+    };
+
+    // A normal call goes through and its latency is recorded
+    let client = createGeminiClient(options);
+    expect('returns the reply text', (await attempt(client)) === '{"action":"CALL"}', 'unexpected reply');
+    expectStats('counts a success', client, { calls: 1, successes: 1, failures: 0 });
+
+    // A slow reply is abandoned after the timeout
+    reply = 'SLOW';
+    client = createGeminiClient(options);
+    expect('times out slow calls', (await attempt(client)).includes('timed out'), 'no timeout');
+    expectStats('counts the timeout', client, { calls: 1, failures: 1, timeouts: 1 });
+
+    // The burst is used up, then the limiter refuses to send
+    reply = 'OK';
+    client = createGeminiClient(options);
+    await attempt(client);
+    await attempt(client);
+    const sent = requests;
+    expect('throttles past the burst', (await attempt(client)).includes('rate limit'), 'call was sent');
+    expect('sends nothing when throttled', requests === sent, `${requests - sent} requests sent`);
+    expectStats('counts the throttled call', client, { calls: 2, throttled: 1 });
+
+    // A 429 empties the limiter, so the next call is not sent either
+    reply = 'RATE_LIMITED';
+    client = createGeminiClient({ ...options, burst: 5 });
+    await attempt(client);
+    expect('backs off after a 429', (await attempt(client)).includes('rate limit'), 'call was sent');
+    expectStats('counts the 429', client, { calls: 1, rateLimited: 1, throttled: 1 });
+
+    // The session budget caps the calls until the session is reset
+    reply = 'OK';
+    client = createGeminiClient({ ...options, burst: 10, callsPerMinute: 600 });
+    for (let i = 0; i < options.sessionBudget; i++) await attempt(client);
+    expect('stops at the session budget', (await attempt(client)).includes('budget'), 'call was sent');
+    expectStats('counts the refused call', client, { calls: options.sessionBudget, overBudget: 1 });
+    client.resetSession();
+    expect('resets the budget', (await attempt(client)) === '{"action":"CALL"}', 'call refused after reset');
+
+    // A failing model falls back to the rules bot and the fallback is counted
+    reply = 'SLOW';
+    client = createGeminiClient(options);
+    const strategy = withFallback(createGeminiStrategy(client), rulesStrategy, client.recordFallback);
+    const { smallBlind, bigBlind } = DEFAULT_TABLE_CONFIG;
+    const state = startHand({ ...createInitialState(bigBlind, 1), players: createPlayers(DEFAULT_TABLE_CONFIG) }, { smallBlind, bigBlind });
+    console.warn = () => {}; // The fallback warning is expected here
+    const decision = await strategy.decide(state, state.players[state.activePlayerIndex], createRng(1));
+    expect('falls back to the rules bot', decision.action !== undefined, 'no decision');
+    expectStats('counts the fallback', client, { timeouts: 1, fallbacks: 1 });
+};
+
+main()
+    .catch((error) => {
+        console.error(error instanceof Error ? error.message : error);
+        failures++;
+    })
+    .finally(() => {
+        server.close();
+        server.closeAllConnections();
+        if (failures > 0) {
+            console.error(`${failures} checks failed`);
+            process.exitCode = 1;
+        } else {
+            console.log('Gemini client checks passed.');
+        }
+    });
@@ -0,0 +1,59 @@
+// Checks the opponent model's counting on hand-built hands, including one where the big blind posts short.
+// Run with `npm run check:opponent-model`.
+import { ActionType, GamePhase, HandEvent, HandHistory, PlayerRole, PlayerTendencies, Suit } from '../types.ts';
+import { updateOpponentModel } from '../utils/opponentModel.ts';
+
+const card = (rank: number, suit: Suit) => ({ rank, suit, display: String(rank) });
+
+const hand = (events: HandEvent[], stacks = [1000, 1000, 1000, 1000]): HandHistory => ({
+    id: 'check',
+    handNumber: 1,
+    handSeed: 1,
+    startedAt: 0,
+    smallBlind: 10,
+    bigBlind: 20,
+    ante: 0,
+    seatCount: stacks.length,
+    dealerIndex: 0,
+    seats: stacks.map((stack, playerId) => ({ playerId, name: `Seat ${playerId + 1}`, role: PlayerRole.BOT, stack })),
+    events,
+    board: [],
+});
+
+const post = (playerId: number, kind: 'SMALL_BLIND' | 'BIG_BLIND', amount: number): HandEvent => ({ type: 'POST', playerId, kind, amount });
+const act = (playerId: number, action: ActionType, amount: number, total: number): HandEvent => ({ type: 'ACTION', playerId, action, amount, total, isAllIn: false });
+const flop: HandEvent = { type: 'BOARD', phase: GamePhase.FLOP, cards: [card(2, Suit.CLUBS), card(7, Suit.HEARTS), card(13, Suit.SPADES)] };
+
+let failures = 0;
+const expect = (name: string, t: PlayerTendencies, expected: Partial<PlayerTendencies>) => {
+    const wrong = Object.entries(expected).filter(([key, value]) => t[key as keyof PlayerTendencies] !== value);
+    const ok = wrong.length === 0;
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${name}${ok ? '' : ` (${wrong.map(([key, value]) => `${key} ${t[key as keyof PlayerTendencies]}, expected ${value}`).join('; ')})`}`);
+    if (!ok) failures++;
+};
+
+// Seat 4 opens, seat 2 calls, seat 3 folds; seat 4 bets the flop and seat 2 folds to it
+const opened = updateOpponentModel(
+    {},
+    hand([post(1, 'SMALL_BLIND', 10), post(2, 'BIG_BLIND', 20), act(3, 'RAISE', 60, 60), act(0, 'FOLD', 0, 0), act(1, 'CALL', 50, 60), act(2, 'FOLD', 0, 20), flop, act(1, 'CHECK', 0, 0), act(3, 'BET', 80, 80), act(1, 'FOLD', 0, 0)])
+);
+expect('an open raise counts as VPIP and PFR', opened[3], { hands: 1, vpip: 1, pfr: 1, bets: 2, calls: 0 });
+expect('a call of the open is VPIP without PFR, with a 3-bet chance', opened[1], { vpip: 1, pfr: 0, calls: 1, threeBetChances: 1, threeBets: 0 });
+expect('the raiser bets the flop as a c-bet', opened[3], { cbetChances: 1, cbets: 1, sawFlop: 1 });
+expect('a fold to the flop bet is a fold to a c-bet', opened[1], { cbetsFaced: 1, foldsToCbet: 1 });
+expect('a folded big blind has no VPIP', opened[2], { vpip: 0, pfr: 0, sawFlop: 0 });
+
+// The big blind is all-in for 15 of 20. Calling the full blind is a call; the first raise after it is an open, not a 3-bet.
+const shortBlind = updateOpponentModel(
+    {},
+    hand([post(1, 'SMALL_BLIND', 10), post(2, 'BIG_BLIND', 15), act(3, 'CALL', 20, 20), act(0, 'RAISE', 80, 80), act(1, 'FOLD', 0, 10), act(3, 'CALL', 60, 80)], [1000, 1000, 15, 1000])
+);
+expect('calling a short big blind is not a raise', shortBlind[3], { vpip: 1, pfr: 0, bets: 0, calls: 2, threeBets: 0, threeBetChances: 1 });
+expect('raising over a short big blind is an open, not a 3-bet', shortBlind[0], { pfr: 1, threeBets: 0, threeBetChances: 0 });
+
+if (failures > 0) {
+    console.error(`${failures} checks failed`);
+    process.exitCode = 1;
+} else {
+    console.log('Opponent model checks passed.');
+}
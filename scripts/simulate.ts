@@ -0,0 +1,160 @@
+// Plays bots against each other with no UI and no delays, then ranks the strategies by win rate.
+// Run with `npm run simulate -- --hands 5000 --seats rules,rules:maniac,random,gemini`.
+// Seats are `strategy[:personality]`; language-model seats (gemini, openai) are answered by a local stub
+// model, so no network or API key is needed. Every hand starts with fresh stacks, so hands are independent.
+import { BotPersonality, BotStrategyKind, GamePhase, PlayerStatus, TableConfig } from '../types.ts';
+import { advancePhase, applyAction, createInitialState, createPlayers, isRunningOut, startHand } from '../utils/gameEngine.ts';
+import { DEFAULT_TABLE_CONFIG, defaultBotName } from '../utils/tableConfig.ts';
+import { DEFAULT_PERSONALITY, PERSONALITY_PROFILES } from '../utils/personalities.ts';
+import { createRng, deriveSeed } from '../utils/random.ts';
+import { createSeatStrategies, STRATEGY_LABELS } from '../services/botStrategy.ts';
+import { createLanguageModelStrategy } from '../services/languageModelStrategy.ts';
+import { stubModel } from '../services/stubModel.ts';
+
+const BOT_RANDOM_STREAM = 1; // Same stream App.tsx seeds the bots from
+const Z_95 = 1.96;
+
+interface SeatSpec {
+    strategy: BotStrategyKind;
+    personality: BotPersonality;
+    label: string; // Seats with the same label are pooled in the results
+}
+
+const USAGE = `Usage: npm run simulate -- [options]
+  --hands N        Hands to play (default 5000)
+  --seed N         Session seed (default 1)
+  --stack N        Starting stack in big blinds (default 100)
+  --big-blind N    Big blind in chips (default 20)
+  --seats LIST     Comma-separated strategy[:personality] per seat
+                   (default rules,rules:loose_aggressive,rules:calling_station,rules:tight_passive,random,gemini)
+  --help           Show this message`;
+
+const OPTIONS = ['hands', 'seed', 'stack', 'big-blind', 'seats'];
+
+const readArgs = (argv: string[]) => {
+    const args = new Map<string, string>();
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i] === '--help' || argv[i] === '-h') {
+            console.log(USAGE);
+            process.exit(0);
+        }
+        const name = argv[i].startsWith('--') ? argv[i].slice(2) : '';
+        if (!OPTIONS.includes(name)) throw new Error(`Unknown option "${argv[i]}".\n${USAGE}`);
+        const value = argv[++i];
+        if (value === undefined || value.startsWith('--')) throw new Error(`--${name} needs a value.\n${USAGE}`);
+        args.set(name, value);
+    }
+    const number = (name: string, fallback: number) => {
+        const value = Number(args.get(name) ?? fallback);
+        if (!Number.isFinite(value) || value <= 0) throw new Error(`--${name} must be a positive number`);
+        return value;
+    };
+    return {
+        hands: number('hands', 5000),
+        seed: number('seed', 1),
+        stack: number('stack', 100), // In big blinds
+        bigBlind: number('big-blind', 20),
+        seats: (args.get('seats') ?? 'rules,rules:loose_aggressive,rules:calling_station,rules:tight_passive,random,gemini').split(','),
+    };
+};
+
+const parseSeat = (spec: string): SeatSpec => {
+    const [kindName, personalityName] = spec.trim().toUpperCase().replace(/-/g, '_').split(':');
+    const strategy = Object.values(BotStrategyKind).find((k) => k === kindName);
+    if (!strategy) throw new Error(`Unknown strategy "${kindName}", expected one of ${Object.values(BotStrategyKind).join(', ')}`);
+    const personality = personalityName ? Object.values(BotPersonality).find((p) => p === personalityName) : DEFAULT_PERSONALITY;
+    if (!personality) throw new Error(`Unknown personality "${personalityName}", expected one of ${Object.values(BotPersonality).join(', ')}`);
+
+    const usesModel = strategy === BotStrategyKind.GEMINI || strategy === BotStrategyKind.OPENAI;
+    const name = `${STRATEGY_LABELS[strategy]}${usesModel ? ' (stub)' : ''}`;
+    const label = strategy === BotStrategyKind.RANDOM ? name : `${name} / ${PERSONALITY_PROFILES[personality].label}`;
+    return { strategy, personality, label };
+};
+
+const summarize = (values: number[]) => {
+    const n = values.length;
+    const mean = values.reduce((sum, v) => sum + v, 0) / n;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, n - 1);
+    return { n, bbPer100: mean * 100, ci: Z_95 * Math.sqrt(variance / n) * 100 };
+};
+
+const main = async () => {
+    const options = readArgs(process.argv.slice(2));
+    const specs = options.seats.map(parseSeat);
+    if (specs.length < 2 || specs.length > 10) throw new Error('A table needs between 2 and 10 seats');
+
+    const bigBlind = options.bigBlind;
+    const smallBlind = Math.floor(bigBlind / 2);
+    const stack = options.stack * bigBlind;
+    const config: TableConfig = {
+        ...DEFAULT_TABLE_CONFIG,
+        seatCount: specs.length,
+        smallBlind,
+        bigBlind,
+        ante: 0,
+        userSeat: -1, // Bots only
+        seats: specs.map((s, i) => ({ name: defaultBotName(i), stack, strategy: s.strategy, personality: s.personality })),
+    };
+    // Repairs are counted instead of logged, which would print thousands of lines
+    let repairs = 0;
+    const stub = createLanguageModelStrategy(BotStrategyKind.GEMINI, stubModel);
+    const strategies = createSeatStrategies(config, { [BotStrategyKind.GEMINI]: stub, [BotStrategyKind.OPENAI]: stub }, () => repairs++);
+
+    const results: number[][] = specs.map(() => []); // Big blinds won or lost in each hand, by seat
+    let state = { ...createInitialState(bigBlind, options.seed), players: createPlayers(config) };
+    const started = performance.now();
+
+    for (let hand = 0; hand < options.hands; hand++) {
+        const players = state.players.map((p) => ({ ...p, chips: stack, status: PlayerStatus.ACTIVE }));
+        state = startHand({ ...state, players }, { smallBlind, bigBlind });
+        const random = createRng(deriveSeed(state.handSeed, BOT_RANDOM_STREAM));
+
+        while (state.phase !== GamePhase.SHOWDOWN) {
+            if (isRunningOut(state)) {
+                state = advancePhase(state);
+                continue;
+            }
+            const player = state.players[state.activePlayerIndex];
+            const decision = await strategies[player.id].decide(state, player, random);
+            const next = applyAction(state, { type: decision.action, playerIndex: player.id, amount: decision.raiseAmount });
+            // An action the engine ignores would stall the hand; folding always ends the turn
+            state = next !== state ? next : applyAction(state, { type: 'FOLD', playerIndex: player.id });
+        }
+        state.players.forEach((p) => results[p.id].push((p.chips - stack) / bigBlind));
+    }
+
+    const seconds = (performance.now() - started) / 1000;
+    const labels = [...new Set(specs.map((s) => s.label))];
+    const rows = labels
+        .map((label) => {
+            const seats = specs.flatMap((s, i) => (s.label === label ? [i] : []));
+            const tendencies = seats.map((i) => state.opponentModel?.[i]).filter((t) => t !== undefined);
+            const hands = tendencies.reduce((sum, t) => sum + t.hands, 0);
+            const share = (count: number) => `${((count / Math.max(1, hands)) * 100).toFixed(0)}%`;
+            return {
+                label,
+                seats: seats.length,
+                ...summarize(seats.flatMap((i) => results[i])),
+                vpip: share(tendencies.reduce((sum, t) => sum + t.vpip, 0)),
+                pfr: share(tendencies.reduce((sum, t) => sum + t.pfr, 0)),
+            };
+        })
+        .sort((a, b) => b.bbPer100 - a.bbPer100);
+
+    console.log(`${options.hands} hands, ${specs.length} seats, ${options.stack} BB stacks, seed ${options.seed} (${seconds.toFixed(1)} s)`);
+    console.log('');
+    console.log(`${'Strategy'.padEnd(44)} ${'Seats'.padStart(5)} ${'bb/100'.padStart(9)} ${'95% CI'.padStart(19)} ${'VPIP'.padStart(5)} ${'PFR'.padStart(5)}`);
+    rows.forEach((r) => {
+        const ci = `${(r.bbPer100 - r.ci).toFixed(1)} to ${(r.bbPer100 + r.ci).toFixed(1)}`;
+        console.log(
+            `${r.label.padEnd(44)} ${String(r.seats).padStart(5)} ${r.bbPer100.toFixed(1).padStart(9)} ${ci.padStart(19)} ${r.vpip.padStart(5)} ${r.pfr.padStart(5)}`
+        );
+    });
+    console.log('');
+    console.log(`${repairs} decisions repaired. Overlapping intervals mean the difference may just be noise.`);
+};
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,128 @@
+// Checks the fast evaluator against the reference one. Every 5-card hand is compared directly. 6- and 7-card
+// hands are sampled by default; with --full every one of them is checked against the best of its 5-card subsets,
+// scored by the reference evaluator in the exhaustive 5-card pass.
+// Run with `npm run verify:evaluator`, or `npm run verify:evaluator -- --full` (a few minutes).
+import { Card } from '../types.ts';
+import { createDeck, evaluateHand } from '../utils/pokerLogic.ts';
+import { encodeCard, evaluateScore } from '../utils/fastEvaluator.ts';
+import { createRng } from '../utils/random.ts';
+
+const SAMPLES = 500_000;
+const full = process.argv.includes('--full');
+
+const deck = createDeck();
+const codes = deck.map(encodeCard);
+let mismatches = 0;
+
+const report = (cards: number[], expected: number, actual: number) => {
+    if (mismatches++ < 10) {
+        console.error(`Mismatch for ${cards.map((i) => deck[i].display + deck[i].suit).join(' ')}: expected ${expected}, got ${actual}`);
+    }
+};
+
+const check = (cards: Card[], encoded: number[]) => {
+    const expected = evaluateHand(cards, []).score;
+    const actual = evaluateScore(encoded);
+    if (expected !== actual) report(encoded.map((code) => codes.indexOf(code)), expected, actual);
+};
+
+// binomial[n][k] = C(n, k). A sorted 5-card hand a < b < c < d < e has the combination index
+// C(a,1) + C(b,2) + C(c,3) + C(d,4) + C(e,5), which numbers all C(52, 5) hands from 0 without gaps.
+const binomial = Array.from({ length: 53 }, (_, n) => {
+    const row = [1];
+    for (let k = 1; k <= 5; k++) row.push((row[k - 1] * (n - k + 1)) / k);
+    return row;
+});
+const comboIndex = (a: number, b: number, c: number, d: number, e: number) =>
+    binomial[a][1] + binomial[b][2] + binomial[c][3] + binomial[d][4] + binomial[e][5];
+
+// Exhaustive: all C(52, 5) = 2,598,960 five-card hands. The reference scores are kept for the full run.
+const referenceScores = new Int32Array(binomial[52][5]);
+let hands = 0;
+for (let a = 0; a < 52; a++)
+    for (let b = a + 1; b < 52; b++)
+        for (let c = b + 1; c < 52; c++)
+            for (let d = c + 1; d < 52; d++)
+                for (let e = d + 1; e < 52; e++) {
+                    const cards = [deck[a], deck[b], deck[c], deck[d], deck[e]];
+                    const expected = evaluateHand(cards, []).score;
+                    const actual = evaluateScore([codes[a], codes[b], codes[c], codes[d], codes[e]]);
+                    if (expected !== actual) report([a, b, c, d, e], expected, actual);
+                    referenceScores[comboIndex(a, b, c, d, e)] = expected;
+                    hands++;
+                }
+console.log(`5 cards: ${hands} hands compared`);
+
+// Positions of the 5-card subsets of a sorted hand of `size` cards
+const subsets = (size: number): number[][] => {
+    const result: number[][] = [];
+    const walk = (start: number, picked: number[]) => {
+        if (picked.length === 5) result.push(picked);
+        else for (let i = start; i < size; i++) walk(i + 1, [...picked, i]);
+    };
+    walk(0, []);
+    return result;
+};
+
+// Every 6- or 7-card hand: the fast score must equal the best reference score among its 5-card subsets,
+// which is how a hand of more than five cards is ranked
+const checkAll = (size: number) => {
+    const positions = subsets(size);
+    const cards = new Array<number>(size);
+    const encoded = new Array<number>(size);
+    let count = 0;
+    const walk = (depth: number, start: number) => {
+        if (depth === size) {
+            let best = 0;
+            for (const [p, q, r, s, t] of positions) {
+                const score = referenceScores[comboIndex(cards[p], cards[q], cards[r], cards[s], cards[t])];
+                if (score > best) best = score;
+            }
+            const actual = evaluateScore(encoded);
+            if (actual !== best) report([...cards], best, actual);
+            count++;
+            return;
+        }
+        for (let i = start; i <= 52 - (size - depth); i++) {
+            cards[depth] = i;
+            encoded[depth] = codes[i];
+            walk(depth + 1, i + 1);
+        }
+    };
+    walk(0, 0);
+    console.log(`${size} cards: all ${count} hands compared with their best 5-card subset`);
+};
+
+// Sampled: without --full, 6 and 7 cards are checked directly against the slow evaluator on random hands
+const checkSample = (size: number, random: () => number) => {
+    const order = deck.map((_, i) => i);
+    for (let n = 0; n < SAMPLES; n++) {
+        for (let i = 0; i < size; i++) {
+            const j = i + Math.floor(random() * (order.length - i));
+            [order[i], order[j]] = [order[j], order[i]];
+        }
+        const picked = order.slice(0, size);
+        check(
+            picked.map((i) => deck[i]),
+            picked.map((i) => codes[i])
+        );
+    }
+    console.log(`${size} cards: ${SAMPLES} random hands compared (sampled; use --full to check them all)`);
+};
+
+const random = createRng(20250101);
+for (const size of [6, 7]) {
+    if (full) checkAll(size);
+    else checkSample(size, random);
+}
+
+if (mismatches > 0) {
+    console.error(`${mismatches} mismatches`);
+    process.exitCode = 1;
+} else {
+    console.log(
+        full
+            ? 'Fast evaluator matches the reference evaluator on every 5-, 6- and 7-card hand.'
+            : 'Fast evaluator matches the reference evaluator on every 5-card hand and the sampled 6- and 7-card hands.'
+    );
+}
@@ -0,0 +1,51 @@
+import { ActionType, GameState, Player } from '../types.ts';
+import { getProfile } from '../utils/personalities.ts';
+import { buildGameContext, formatGameContext } from './gameContext.ts';
+import { BotDecision } from './botStrategy.ts';
+
+const ACTIONS: ActionType[] = ['FOLD', 'CALL', 'CHECK', 'BET', 'RAISE', 'ALL_IN'];
+
+// The decision prompt shared by every language-model strategy
+export const buildDecisionPrompt = (gameState: GameState, bot: Player): string => {
+    const context = formatGameContext(buildGameContext(gameState, bot)).replace(/^/gm, '      ');
+    const profile = getProfile(bot.personality);
+    const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+    return `
+      You are a professional Texas Hold'em Poker bot named ${bot.name}.
+      Your playing style is ${profile.label}: ${profile.description}
+      Play about ${profile.vpip}% of starting hands, choose betting or raising over checking or calling about ${percent(profile.aggression)} of the time,
+      and bluff about ${percent(profile.bluffFrequency)} of the time when you have nothing. Stay in character: your style comes before the general strategy below.
+      Use your position, the effective stacks and how the hand has been played so far.
+      Exploit the opponents' session tendencies: bluff more against players who fold to continuation bets, value bet players who call too much.
+      
+      Game State:
+${context}
+      
+      Strategy:
+      1. Pre-Flop: Raise with Pairs 88+, AK, AQ, AJ, KQ. Call with mid-pairs or connectors. Fold trash.
+      2. Post-Flop: If you hit top pair or better, Bet/Raise. If you have a strong draw (flush/straight), Call or Semi-Bluff. If you missed completely, Check/Fold unless bluffing (rarely).
+      3. Betting Rules:
+         - If 'Cost to Call' is 0: You can CHECK or BET.
+         - If 'Cost to Call' > 0: You can FOLD, CALL, or RAISE.
+         - 'BET' means opening the betting when no one else has. 
+         - 'RAISE' means increasing an existing bet.
+      
+      Output:
+      - Return JSON ONLY.
+      - action: "FOLD", "CALL", "CHECK", "BET", "RAISE", "ALL_IN"
+      - raiseAmount: If BET or RAISE, the total amount you want your bet to be. Must be at least Min Raise/Bet.
+    `;
+};
+
+// Reads a decision out of a model's reply. Models without a JSON mode often wrap the object in prose
+// or a code fence, so the first {...} block is used.
+export const parseBotDecision = (text: string): BotDecision => {
+    const json = text.match(/\{[\s\S]*\}/);
+    if (!json) throw new Error(`No JSON object in model reply: ${text}`);
+    const parsed = JSON.parse(json[0]);
+    const action = String(parsed.action ?? '').toUpperCase() as ActionType;
+    if (!ACTIONS.includes(action)) throw new Error(`Unknown action in model reply: ${parsed.action}`);
+    const raiseAmount = parsed.raiseAmount == null ? NaN : Number(parsed.raiseAmount);
+    return Number.isFinite(raiseAmount) ? { action, raiseAmount, raw: text } : { action, raw: text };
+};
@@ -0,0 +1,94 @@
+import { ActionType, BotStrategyKind, GameState, Player, TableConfig } from '../types.ts';
+import { RandomSource } from '../utils/random.ts';
+import { geminiClient } from './geminiClient.ts';
+import { geminiStrategy } from './geminiService.ts';
+import { createOpenAiStrategy } from './openAiService.ts';
+import { randomStrategy } from './randomStrategy.ts';
+import { rulesStrategy } from './rulesStrategy.ts';
+import { repairDecision } from './decisionRepair.ts';
+
+export interface BotDecision {
+    action: ActionType;
+    raiseAmount?: number; // Total round bet for BET and RAISE
+    raw?: string; // The model's reply, kept for debugging
+}
+
+// Anything that can play a seat. `decide` is only called on the bot's turn and may reject
+// (e.g. when a model cannot be reached); `random` is the hand's seeded source for local randomness.
+export interface BotStrategy {
+    kind: BotStrategyKind;
+    decide: (state: GameState, bot: Player, random: RandomSource) => Promise<BotDecision>;
+}
+
+export const STRATEGY_LABELS: Record<BotStrategyKind, string> = {
+    [BotStrategyKind.GEMINI]: 'Gemini',
+    [BotStrategyKind.OPENAI]: 'OpenAI-compatible',
+    [BotStrategyKind.RULES]: 'Rules-based',
+    [BotStrategyKind.RANDOM]: 'Random',
+};
+
+// Falls back to another strategy whenever the first one fails, so a model outage never stalls the table.
+// `onFallback` is told each time, e.g. to count fallbacks in the model stats.
+export const withFallback = (strategy: BotStrategy, fallback: BotStrategy, onFallback?: () => void): BotStrategy => ({
+    kind: strategy.kind,
+    decide: async (state, bot, random) => {
+        try {
+            return await strategy.decide(state, bot, random);
+        } catch (error: any) {
+            // Quietly handle quota errors to keep the game flowing
+            if (String(error).includes('429') || String(error).includes('quota')) {
+                console.warn(`${STRATEGY_LABELS[strategy.kind]} quota exceeded. Using ${STRATEGY_LABELS[fallback.kind]} strategy.`);
+            } else {
+                console.warn(`${STRATEGY_LABELS[strategy.kind]} error (using fallback):`, error);
+            }
+            onFallback?.();
+            return fallback.decide(state, bot, random);
+        }
+    },
+});
+
+// Told what was wrong with each repaired decision
+export type RepairListener = (repair: string) => void;
+
+// Checks every decision against the legal actions and repairs it to the closest legal one. Repairs are logged
+// with the model's reply, or passed to `onRepair` instead, e.g. to count them in a simulation.
+const withRepair = (strategy: BotStrategy, onRepair?: RepairListener): BotStrategy => ({
+    kind: strategy.kind,
+    decide: async (state, bot, random) => {
+        const decision = await strategy.decide(state, bot, random);
+        const { decision: repaired, repair } = repairDecision(state, decision);
+        if (repair && onRepair) {
+            onRepair(repair);
+        } else if (repair) {
+            console.warn(`Repaired ${STRATEGY_LABELS[strategy.kind]} decision for ${bot.name}: ${repair}`, {
+                decision: { action: decision.action, raiseAmount: decision.raiseAmount },
+                repaired,
+                raw: decision.raw,
+            });
+        }
+        return repaired;
+    },
+});
+
+const createBaseStrategy = (kind: BotStrategyKind, config: TableConfig): BotStrategy => {
+    switch (kind) {
+        case BotStrategyKind.GEMINI:
+            return withFallback(geminiStrategy, rulesStrategy, geminiClient.recordFallback);
+        case BotStrategyKind.OPENAI:
+            return withFallback(createOpenAiStrategy(config.openAi), rulesStrategy);
+        case BotStrategyKind.RULES:
+            return rulesStrategy;
+        case BotStrategyKind.RANDOM:
+            return randomStrategy;
+    }
+};
+
+// Replaces the usual backend for some kinds, e.g. a stub model standing in for Gemini in simulations
+export type StrategyOverrides = Partial<Record<BotStrategyKind, BotStrategy>>;
+
+export const createBotStrategy = (kind: BotStrategyKind, config: TableConfig, overrides: StrategyOverrides = {}, onRepair?: RepairListener): BotStrategy =>
+    withRepair(overrides[kind] ?? createBaseStrategy(kind, config), onRepair);
+
+// One strategy per seat, indexed like GameState.players (the user's seat gets one too but never uses it)
+export const createSeatStrategies = (config: TableConfig, overrides: StrategyOverrides = {}, onRepair?: RepairListener): BotStrategy[] =>
+    config.seats.map((seat) => createBotStrategy(seat.strategy, config, overrides, onRepair));
@@ -0,0 +1,58 @@
+import { GameState } from '../types.ts';
+import { getLegalActions } from '../utils/gameEngine.ts';
+import { BotDecision } from './botStrategy.ts';
+
+export interface RepairedDecision {
+    decision: BotDecision;
+    repair?: string; // What was wrong with the original decision, when it had to change
+}
+
+// Maps a bot's decision onto the closest action that is legal for the player to act. Checking into a bet
+// becomes a fold, calling nothing becomes a check, a BET facing a bet becomes a RAISE (and vice versa),
+// and raise sizes are clamped to the allowed range, turning into an all-in when they reach the stack.
+export const repairDecision = (state: GameState, decision: BotDecision): RepairedDecision => {
+    const legal = getLegalActions(state);
+    const is = (type: string) => legal.some((a) => a.type === type);
+    const raise = legal.find((a) => a.type === 'BET' || a.type === 'RAISE');
+    const passive: BotDecision = { action: is('CHECK') ? 'CHECK' : 'CALL' };
+    const { action, raiseAmount } = decision;
+    if (legal.length === 0) return { decision }; // Not this player's turn; the engine will ignore it anyway
+
+    if (action === 'FOLD' || (action !== 'BET' && action !== 'RAISE' && is(action))) return { decision: { action } };
+
+    switch (action) {
+        case 'CHECK':
+            return { decision: { action: 'FOLD' }, repair: 'CHECK is not allowed facing a bet; folded instead.' };
+        case 'CALL':
+            return { decision: { action: 'CHECK' }, repair: 'There is nothing to call; checked instead.' };
+        case 'ALL_IN':
+            return { decision: passive, repair: `The betting was not reopened, so ALL_IN became ${passive.action}.` };
+    }
+
+    // BET or RAISE
+    if (!raise) {
+        if (is('ALL_IN')) return { decision: { action: 'ALL_IN' }, repair: `The stack does not cover a full ${action}; went all-in.` };
+        return { decision: passive, repair: `${action} is not allowed here; ${passive.action === 'CHECK' ? 'checked' : 'called'} instead.` };
+    }
+
+    const min = raise.minAmount!;
+    const max = raise.maxAmount!;
+    const problems: string[] = [];
+    if (action !== raise.type) problems.push(`${action} should be ${raise.type}`);
+
+    let amount = raiseAmount;
+    if (amount === undefined || !Number.isFinite(amount)) {
+        problems.push(`no amount given, using the minimum ${min}`);
+        amount = min;
+    } else if (amount < min) {
+        problems.push(`${amount} is below the minimum ${min}`);
+        amount = min;
+    } else if (amount > max) {
+        problems.push(`${amount} is more than the stack allows (${max})`);
+        amount = max;
+    }
+    amount = Math.floor(amount);
+
+    const repaired: BotDecision = amount >= max ? { action: 'ALL_IN' } : { action: raise.type, raiseAmount: amount };
+    return problems.length > 0 ? { decision: repaired, repair: `${problems.join('; ')}.` } : { decision: repaired };
+};
@@ -0,0 +1,155 @@
+import { Card, GamePhase, GameState, HandEvent, Player, PlayerRole, PlayerStatus } from '../types.ts';
+import { minRaiseTotal } from '../utils/gameEngine.ts';
+import { getPositions } from '../utils/positions.ts';
+import { getTendencies, summarizeTendencies } from '../utils/opponentModel.ts';
+import { BetKind, createBetTracker } from '../utils/betTracker.ts';
+
+export interface OpponentContext {
+    name: string;
+    position: string;
+    stack: number; // Chips behind
+    effectiveStack: number; // The smaller of this stack and the bot's, counting chips bet this round
+    currentBet: number;
+    status: PlayerStatus;
+    lastAction?: string;
+    tendencies?: string; // How they have played this session so far
+}
+
+export interface StreetActions {
+    phase: GamePhase;
+    board: Card[]; // Cards dealt on this street
+    actions: string[]; // e.g. "Bot 3 (CO) raises to 60"
+}
+
+// Everything an LLM-backed bot is told about the hand, in one structured object
+export interface GameContext {
+    name: string;
+    position: string;
+    phase: GamePhase;
+    hand: Card[];
+    board: Card[];
+    smallBlind: number;
+    bigBlind: number;
+    ante: number;
+    pot: number;
+    stack: number;
+    currentBet: number;
+    toCall: number;
+    minRaiseTotal: number;
+    effectiveStack: number; // Largest amount the bot can win or lose against a single opponent
+    playersInHand: number; // Not folded, including the bot
+    opponents: OpponentContext[]; // In seat order from the bot's left
+    streets: StreetActions[];
+}
+
+const isLive = (p: Player) => p.status === PlayerStatus.ACTIVE || p.status === PlayerStatus.ALL_IN;
+
+// The user's seat is literally named "You", which would read as the bot itself in a prompt
+const nameFor = (p: Player, bot: Player) => (p.id === bot.id ? 'You' : p.role === PlayerRole.USER ? 'Human player' : p.name);
+
+// Replays the hand history into per-street action lines
+const buildStreets = (state: GameState, label: (id: number) => string): StreetActions[] => {
+    const streets: StreetActions[] = [{ phase: GamePhase.PRE_FLOP, board: [], actions: [] }];
+    const bets = createBetTracker(state.history?.bigBlind ?? state.minBet);
+    const describe = (e: Extract<HandEvent, { type: 'ACTION' }>, kind: BetKind) => {
+        const allIn = e.isAllIn ? ' (all-in)' : '';
+        if (kind === 'FOLD') return 'folds';
+        if (kind === 'CHECK') return 'checks';
+        if (kind === 'CALL') return `calls ${e.amount}${allIn}`;
+        return `${kind === 'BET' ? 'bets' : 'raises to'} ${e.total}${allIn}`;
+    };
+
+    for (const e of state.history?.events ?? []) {
+        const street = streets[streets.length - 1];
+        const bet = bets.read(e);
+        if (e.type === 'POST') {
+            const what = e.kind === 'ANTE' ? 'ante' : e.kind === 'SMALL_BLIND' ? 'small blind' : 'big blind';
+            street.actions.push(`${label(e.playerId)} posts ${what} ${e.amount}`);
+        } else if (e.type === 'ACTION') {
+            street.actions.push(`${label(e.playerId)} ${describe(e, bet!.kind)}`);
+        } else if (e.type === 'BOARD') {
+            streets.push({ phase: e.phase, board: e.cards, actions: [] });
+        }
+    }
+    return streets;
+};
+
+export const buildGameContext = (state: GameState, bot: Player): GameContext => {
+    const positions = getPositions(state);
+    const position = (id: number) => positions.get(id) ?? '—';
+    const label = (id: number) => `${nameFor(state.players[id], bot)} (${position(id)})`;
+    const n = state.players.length;
+
+    const opponents = Array.from({ length: n - 1 }, (_, i) => state.players[(bot.id + 1 + i) % n])
+        .filter((p) => positions.has(p.id))
+        .map((p): OpponentContext => {
+            const tendencies = getTendencies(state, p);
+            return {
+                name: nameFor(p, bot),
+                position: position(p.id),
+                stack: p.chips,
+                effectiveStack: Math.min(p.chips + p.currentBet, bot.chips + bot.currentBet),
+                currentBet: p.currentBet,
+                status: p.status,
+                lastAction: p.lastAction,
+                tendencies: tendencies && summarizeTendencies(tendencies),
+            };
+        });
+    const liveOpponents = opponents.filter((o) => o.status === PlayerStatus.ACTIVE || o.status === PlayerStatus.ALL_IN);
+
+    return {
+        name: bot.name,
+        position: position(bot.id),
+        phase: state.phase,
+        hand: bot.hand,
+        board: state.communityCards,
+        smallBlind: state.history?.smallBlind ?? state.minBet / 2,
+        bigBlind: state.minBet,
+        ante: state.history?.ante ?? 0,
+        pot: state.pot,
+        stack: bot.chips,
+        currentBet: bot.currentBet,
+        toCall: Math.min(bot.chips, Math.max(0, state.currentHighBet - bot.currentBet)),
+        minRaiseTotal: minRaiseTotal(state),
+        effectiveStack: Math.max(0, ...liveOpponents.map((o) => o.effectiveStack)),
+        playersInHand: state.players.filter(isLive).length,
+        opponents,
+        streets: buildStreets(state, label),
+    };
+};
+
+const formatCards = (cards: Card[]) => cards.map((c) => `${c.display}${c.suit}`).join(',');
+
+// Serializes the context as a compact, sectioned text block for a prompt
+export const formatGameContext = (ctx: GameContext): string => {
+    const bb = (chips: number) => `${chips} (${(chips / ctx.bigBlind).toFixed(1)} BB)`;
+    const lines = [
+        `- You: ${ctx.name}, position ${ctx.position}`,
+        `- Phase: ${ctx.phase}`,
+        `- Your Hand: [${formatCards(ctx.hand)}]`,
+        `- Community Cards: [${formatCards(ctx.board)}]`,
+        `- Blinds: ${ctx.smallBlind}/${ctx.bigBlind}${ctx.ante > 0 ? `, ante ${ctx.ante}` : ''}`,
+        `- Pot Size: ${ctx.pot}`,
+        `- Your Chips: ${bb(ctx.stack)}`,
+        `- Your Current Bet in Round: ${ctx.currentBet}`,
+        `- Cost to Call: ${ctx.toCall}`,
+        `- Min Raise/Bet (total): ${ctx.minRaiseTotal}`,
+        `- Effective Stack: ${bb(ctx.effectiveStack)}`,
+        `- Players Still in the Hand: ${ctx.playersInHand}`,
+        '',
+        'Opponents (in order from your left):',
+        ...ctx.opponents.map((o) => {
+            const state = o.status === PlayerStatus.FOLDED ? 'folded' : o.status === PlayerStatus.ALL_IN ? 'all-in' : 'in hand';
+            const last = o.lastAction ? `, last action ${o.lastAction}` : '';
+            const line = `- ${o.name} (${o.position}): ${state}, stack ${bb(o.stack)}, bet this round ${o.currentBet}, effective ${bb(o.effectiveStack)}${last}`;
+            return o.tendencies ? `${line}\n  Session tendencies: ${o.tendencies}` : line;
+        }),
+        '',
+        'Action So Far:',
+        ...ctx.streets.map((s) => {
+            const board = s.board.length > 0 ? ` [${formatCards(s.board)}]` : '';
+            return `- ${s.phase}${board}: ${s.actions.length > 0 ? s.actions.join('; ') : 'no action yet'}`;
+        }),
+    ];
+    return lines.join('\n');
+};
@@ -0,0 +1,151 @@
+import { GoogleGenAI, Schema } from '@google/genai';
+import { createTokenBucket } from '../utils/tokenBucket.ts';
+
+export interface GeminiClientOptions {
+    apiKey: string;
+    model: string;
+    baseUrl?: string; // Overrides the API host, e.g. a local mock server
+    timeoutMs: number; // Per call; a slower reply is abandoned so the bot can fall back
+    burst: number; // Calls allowed back to back
+    callsPerMinute: number; // Sustained rate once the burst is used up
+    sessionBudget: number; // Calls allowed per game session
+}
+
+export interface ModelCallStats {
+    calls: number; // Requests sent to the server
+    successes: number;
+    failures: number; // Errors and timeouts, including rateLimited
+    timeouts: number;
+    rateLimited: number; // 429 / quota errors from the server
+    throttled: number; // Calls the local rate limiter refused to send
+    overBudget: number; // Calls refused because the session budget was used up
+    fallbacks: number; // Decisions the local strategy made instead
+    lastLatencyMs: number;
+    maxLatencyMs: number;
+    totalLatencyMs: number; // Of completed calls, for the average
+}
+
+export interface GeminiClient {
+    generate: (prompt: string, responseSchema?: Schema) => Promise<string>;
+    recordFallback: () => void;
+    resetSession: () => void; // Restores the budget and clears the counters
+    getStats: () => ModelCallStats; // A new object after every change, so it can be compared by reference
+    subscribe: (listener: () => void) => () => void;
+    options: GeminiClientOptions;
+}
+
+export const DEFAULT_GEMINI_OPTIONS: GeminiClientOptions = {
+    apiKey: process.env.API_KEY ?? '',
+    model: 'gemini-2.5-flash',
+    baseUrl: process.env.GEMINI_BASE_URL || undefined,
+    timeoutMs: 8000,
+    burst: 5,
+    callsPerMinute: 15, // The free tier's limit for Flash models
+    sessionBudget: 500,
+};
+
+const EMPTY_STATS: ModelCallStats = {
+    calls: 0,
+    successes: 0,
+    failures: 0,
+    timeouts: 0,
+    rateLimited: 0,
+    throttled: 0,
+    overBudget: 0,
+    fallbacks: 0,
+    lastLatencyMs: 0,
+    maxLatencyMs: 0,
+    totalLatencyMs: 0,
+};
+
+const isRateLimitError = (error: unknown) => String(error).includes('429') || String(error).includes('quota');
+
+// One Gemini client for the whole app. Every call is checked against the session budget and the rate
+// limiter before it is sent, and abandoned after the timeout; a 429 also empties the rate limiter so
+// the table backs off instead of hammering the quota.
+export const createGeminiClient = (options: GeminiClientOptions): GeminiClient => {
+    let ai: GoogleGenAI | undefined; // Created on first use, so a missing key only fails the calls
+    let bucket = createTokenBucket(options.burst, options.callsPerMinute / 60);
+    let stats = EMPTY_STATS;
+    const listeners = new Set<() => void>();
+
+    const update = (changes: (s: ModelCallStats) => Partial<ModelCallStats>) => {
+        stats = { ...stats, ...changes(stats) };
+        listeners.forEach((listener) => listener());
+    };
+
+    const generate = async (prompt: string, responseSchema?: Schema): Promise<string> => {
+        if (stats.calls >= options.sessionBudget) {
+            update((s) => ({ overBudget: s.overBudget + 1 }));
+            throw new Error(`Gemini session budget of ${options.sessionBudget} calls is used up`);
+        }
+        if (!bucket.tryTake()) {
+            update((s) => ({ throttled: s.throttled + 1 }));
+            throw new Error('Gemini rate limit reached; skipping this call');
+        }
+
+        update((s) => ({ calls: s.calls + 1 }));
+        const controller = new AbortController();
+        const started = Date.now();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                controller.abort();
+                reject(new Error(`Gemini call timed out after ${options.timeoutMs} ms`));
+            }, options.timeoutMs);
+        });
+
+        try {
+            ai ??= new GoogleGenAI({ apiKey: options.apiKey, httpOptions: options.baseUrl ? { baseUrl: options.baseUrl } : undefined });
+            const response = await Promise.race([
+                ai.models.generateContent({
+                    model: options.model,
+                    contents: prompt,
+                    config: {
+                        abortSignal: controller.signal,
+                        ...(responseSchema ? { responseMimeType: 'application/json', responseSchema } : {}),
+                    },
+                }),
+                timeout,
+            ]);
+            if (!response.text) throw new Error('No response text');
+            const latency = Date.now() - started;
+            update((s) => ({
+                successes: s.successes + 1,
+                lastLatencyMs: latency,
+                maxLatencyMs: Math.max(s.maxLatencyMs, latency),
+                totalLatencyMs: s.totalLatencyMs + latency,
+            }));
+            return response.text;
+        } catch (error) {
+            const timedOut = controller.signal.aborted;
+            const rateLimited = !timedOut && isRateLimitError(error);
+            if (rateLimited) bucket.drain();
+            update((s) => ({
+                failures: s.failures + 1,
+                timeouts: s.timeouts + (timedOut ? 1 : 0),
+                rateLimited: s.rateLimited + (rateLimited ? 1 : 0),
+            }));
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    return {
+        generate,
+        recordFallback: () => update((s) => ({ fallbacks: s.fallbacks + 1 })),
+        resetSession: () => {
+            bucket = createTokenBucket(options.burst, options.callsPerMinute / 60);
+            update(() => EMPTY_STATS);
+        },
+        getStats: () => stats,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        options,
+    };
+};
+
+export const geminiClient = createGeminiClient(DEFAULT_GEMINI_OPTIONS);
@@ -0,0 +1,50 @@
+import { BotStrategyKind, Card, HandHistory, PlayerRole, TableConfig } from '../types.ts';
+import { DecisionReview } from '../utils/handReview.ts';
+import { geminiClient } from './geminiClient.ts';
+import { LanguageModel } from './languageModelStrategy.ts';
+import { createOpenAiModel } from './openAiService.ts';
+
+export interface ReviewModel {
+    label: string;
+    model: LanguageModel;
+}
+
+// The model that explains reviews: the OpenAI-compatible server when a seat plays through it, otherwise
+// Gemini when there is an API key, otherwise none and the review stays computed only
+export const getReviewModel = (config: TableConfig): ReviewModel | null => {
+    if (config.seats.some((s) => s.strategy === BotStrategyKind.OPENAI)) {
+        return { label: config.openAi.model || 'local model', model: createOpenAiModel(config.openAi) };
+    }
+    if (process.env.API_KEY) return { label: 'Gemini', model: (prompt) => geminiClient.generate(prompt) };
+    return null;
+};
+
+const formatCards = (cards: Card[]) => (cards.length > 0 ? cards.map((c) => `${c.display}${c.suit}`).join(',') : 'none');
+
+export const buildReviewPrompt = (hand: HandHistory, reviews: DecisionReview[]): string => {
+    const user = hand.seats.find((s) => s.role === PlayerRole.USER);
+    const hole = hand.events.find((e) => e.type === 'DEAL' && e.playerId === user?.playerId);
+    const decisions = reviews.map((r, i) => {
+        const ranges = r.opponents.map((o) => `${o.name} top ${o.top.toFixed(0)}%`).join(', ');
+        const odds = r.potOdds === null ? 'nothing to call' : `pot odds ${r.potOdds.toFixed(0)}%`;
+        return [
+            `${i + 1}. ${r.phase}, board [${formatCards(r.board)}], pot ${r.pot}, to call ${r.toCall}: ${r.action}${r.amount > 0 ? ` (${r.amount} chips)` : ''}`,
+            `   ${odds}, equity ${r.equity.toFixed(0)}% against ${ranges}, break-even ${r.requiredEquity.toFixed(0)}%, verdict ${r.verdict}`,
+            `   ${r.note}`,
+        ].join('\n');
+    });
+
+    return `
+You are a friendly Texas Hold'em coach reviewing a hand the student just played.
+Blinds ${hand.smallBlind}/${hand.bigBlind}${hand.ante > 0 ? `, ante ${hand.ante}` : ''}. Student's hand: [${hole?.type === 'DEAL' ? formatCards(hole.cards) : 'unknown'}]. Final board: [${formatCards(hand.board)}].
+
+The student's decisions, with equity computed against ranges estimated from the opponents' actions:
+${decisions.join('\n')}
+
+Explain in plain text, under 150 words, which decisions were sound and which could be improved and why.
+Use the numbers above; do not invent cards or actions. No markdown headings.
+`.trim();
+};
+
+export const explainReview = async (model: LanguageModel, hand: HandHistory, reviews: DecisionReview[]): Promise<string> =>
+    (await model(buildReviewPrompt(hand, reviews))).trim();
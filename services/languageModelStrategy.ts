@@ -0,0 +1,12 @@
+import { BotStrategyKind } from '../types.ts';
+import { BotStrategy } from './botStrategy.ts';
+import { buildDecisionPrompt, parseBotDecision } from './botPrompt.ts';
+
+// Anything that turns a prompt into a reply: a hosted model, a local server or a stub
+export type LanguageModel = (prompt: string) => Promise<string>;
+
+// Sends the shared decision prompt to a model and reads the decision out of its reply
+export const createLanguageModelStrategy = (kind: BotStrategyKind, model: LanguageModel): BotStrategy => ({
+    kind,
+    decide: async (gameState, bot) => parseBotDecision(await model(buildDecisionPrompt(gameState, bot))),
+});
@@ -0,0 +1,44 @@
+import { BotStrategyKind, OpenAiEndpoint } from '../types.ts';
+import { BotStrategy } from './botStrategy.ts';
+import { createLanguageModelStrategy, LanguageModel } from './languageModelStrategy.ts';
+
+// Local servers can be slow to load a model, so this is longer than the Gemini timeout, but a server that
+// hangs still fails the call and the bot falls back instead of freezing the table
+const OPENAI_TIMEOUT_MS = 20000;
+
+// Talks to any server implementing the OpenAI chat completions API (llama.cpp, Ollama, LM Studio, vLLM...)
+export const createOpenAiModel =
+    (endpoint: OpenAiEndpoint, timeoutMs = OPENAI_TIMEOUT_MS): LanguageModel =>
+    async (prompt) => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (endpoint.apiKey) headers.Authorization = `Bearer ${endpoint.apiKey}`;
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+            const response = await fetch(`${endpoint.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    model: endpoint.model,
+                    messages: [{ role: 'user', content: prompt }],
+                    temperature: 0.7,
+                }),
+                signal: controller.signal,
+            });
+            if (!response.ok) throw new Error(`Model server responded with ${response.status} ${response.statusText}`);
+
+            const data = await response.json();
+            const text = data?.choices?.[0]?.message?.content;
+            if (typeof text !== 'string') throw new Error('No message content in model response');
+            return text;
+        } catch (error) {
+            if (controller.signal.aborted) throw new Error(`Model server did not answer within ${timeoutMs} ms`);
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+export const createOpenAiStrategy = (endpoint: OpenAiEndpoint): BotStrategy =>
+    createLanguageModelStrategy(BotStrategyKind.OPENAI, createOpenAiModel(endpoint));
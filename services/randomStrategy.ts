@@ -0,0 +1,56 @@
+import { BotStrategyKind } from '../types.ts';
+import { minRaiseTotal } from '../utils/gameEngine.ts';
+import { BotStrategy } from './botStrategy.ts';
+
+// Robust deterministic fallback logic: weighted random play that only looks at the price of a call
+export const randomStrategy: BotStrategy = {
+    kind: BotStrategyKind.RANDOM,
+    decide: async (gameState, bot, random) => {
+        const callAmount = gameState.currentHighBet - bot.currentBet;
+        const r = random();
+
+        // 1. If we can Check (Cost to Call is 0)
+        if (callAmount === 0) {
+            // 20% chance to open betting with a min-bet if we have chips
+            if (r > 0.8 && bot.chips >= gameState.minBet) {
+                return { action: 'BET', raiseAmount: gameState.minBet };
+            }
+            return { action: 'CHECK' };
+        }
+
+        // 2. Facing a Bet
+
+        // If it's a huge bet (> 50% of our stack), fold most of the time unless we feel lucky
+        if (callAmount > bot.chips * 0.5) {
+            if (r > 0.9) return { action: 'ALL_IN' }; // 10% yolo
+            return { action: 'FOLD' };
+        }
+
+        // If we don't have enough to call, All-In or Fold
+        if (bot.chips <= callAmount) {
+            if (r > 0.4) return { action: 'ALL_IN' };
+            return { action: 'FOLD' };
+        }
+
+        // Standard Play:
+        // 50% Call
+        // 40% Fold
+        // 10% Raise
+
+        if (r < 0.4) return { action: 'FOLD' };
+        if (r < 0.9) return { action: 'CALL' };
+
+        // Attempt Raise
+        // Rule: Min raise is the current bet plus the last full bet or raise
+        const minRaise = minRaiseTotal(gameState);
+
+        // Check if we have chips to raise
+        const costToRaise = minRaise - bot.currentBet;
+
+        if (bot.chips >= costToRaise) {
+            return { action: 'RAISE', raiseAmount: minRaise };
+        }
+
+        return { action: 'CALL' };
+    },
+};
@@ -0,0 +1,246 @@
+import { BotStrategyKind, Card, GamePhase, GameState, HandCategory, PersonalityProfile, Player, PlayerStatus } from '../types.ts';
+import { getLegalActions } from '../utils/gameEngine.ts';
+import { evaluateHand } from '../utils/pokerLogic.ts';
+import { positionName } from '../utils/positions.ts';
+import { HandRange, handPercentile, inRange, parseRange } from '../utils/handRanges.ts';
+import { findDraws, outsEquity } from '../utils/draws.ts';
+import { BASE_PROFILE, getProfile } from '../utils/personalities.ts';
+import { aggressionFactor, getTendencies, rate } from '../utils/opponentModel.ts';
+import { RandomSource } from '../utils/random.ts';
+import { BotDecision, BotStrategy } from './botStrategy.ts';
+
+type PositionGroup = 'EARLY' | 'MIDDLE' | 'LATE' | 'SB' | 'BB';
+
+const positionGroup = (position: string): PositionGroup => {
+    if (position === 'SB' || position === 'BB') return position;
+    if (position.startsWith('UTG')) return 'EARLY';
+    if (position.startsWith('MP') || position === 'HJ') return 'MIDDLE';
+    return 'LATE'; // CO, BTN and the heads-up BTN/SB
+};
+
+const chart = (ranges: Record<PositionGroup, string>) =>
+    Object.fromEntries(Object.entries(ranges).map(([group, range]) => [group, parseRange(range)])) as Record<PositionGroup, HandRange>;
+
+// Raise first in. The big blind never opens; it raises limpers with its 3-bet range instead.
+const OPEN = chart({
+    EARLY: '66+,A9s+,KTs+,QTs+,JTs,T9s,AJo+,KQo',
+    MIDDLE: '44+,A7s+,A5s,K9s+,Q9s+,J9s+,T9s,98s,ATo+,KJo+,QJo',
+    LATE: '22+,A2s+,K6s+,Q8s+,J8s+,T8s+,97s+,86s+,75s+,65s,54s,A7o+,K9o+,Q9o+,J9o+,T9o',
+    SB: '22+,A2s+,K8s+,Q9s+,J9s+,T8s+,98s,87s,76s,A8o+,KTo+,QTo+,JTo',
+    BB: '',
+});
+
+// Re-raise a single raise for value
+const THREE_BET = chart({
+    EARLY: 'QQ+,AKs,AKo',
+    MIDDLE: 'QQ+,AKs,AKo',
+    LATE: 'JJ+,AQs+,AKo',
+    SB: 'JJ+,AQs+,AKo',
+    BB: 'JJ+,AQs+,AKo',
+});
+
+// Flat a single raise
+const CALL = chart({
+    EARLY: '77-JJ,AJs+,KQs,AQo',
+    MIDDLE: '66-JJ,ATs+,KJs+,QJs,JTs,AQo',
+    LATE: '22-TT,ATs+,KTs+,QTs+,JTs,T9s,98s,87s,76s,AJo+,KQo',
+    SB: '77-TT,AJs+,KQs,AQo',
+    BB: '22-TT,A2s+,K7s+,Q8s+,J8s+,T8s+,97s+,86s+,75s+,65s,54s,A8o+,KTo+,QTo+,JTo',
+});
+
+const THREE_BET_BLUFF = parseRange('A5s-A2s,K9s,76s,65s'); // Mixed in from late position and the blinds
+const FOUR_BET = parseRange('QQ+,AKs,AKo');
+const CALL_THREE_BET = parseRange('TT-JJ,AQs,AKo');
+const SHOVE_VS_RAISE = parseRange('88+,AJs+,AQo+,KQs');
+
+const SHORT_STACK_BB = 12; // At or below this many big blinds, raise all-in or fold
+
+// Turns a wanted round-bet total into a legal decision: a bet or raise clamped to the allowed range,
+// all-in when that is the whole stack, or a call/check when raising is not allowed
+export const betTo = (state: GameState, total: number): BotDecision => {
+    const legal = getLegalActions(state);
+    const raise = legal.find((a) => a.type === 'BET' || a.type === 'RAISE');
+    if (raise) {
+        const amount = Math.round(Math.min(raise.maxAmount!, Math.max(raise.minAmount!, total)));
+        if (amount >= raise.maxAmount!) return { action: 'ALL_IN' };
+        return { action: raise.type, raiseAmount: amount };
+    }
+    if (legal.some((a) => a.type === 'ALL_IN') && !legal.some((a) => a.type === 'CALL')) return { action: 'ALL_IN' };
+    return { action: legal.some((a) => a.type === 'CALL') ? 'CALL' : 'CHECK' };
+};
+
+// Bets or raises by a fraction of the pot; facing a bet the call is added to the pot first
+const potBet = (state: GameState, bot: Player, fraction: number): BotDecision => {
+    const callAmount = state.currentHighBet - bot.currentBet;
+    return betTo(state, state.currentHighBet + fraction * (state.pot + callAmount));
+};
+
+const checkOrFold = (callAmount: number): BotDecision => ({ action: callAmount > 0 ? 'FOLD' : 'CHECK' });
+
+// Raises so far this hand before the flop, the last player to raise and how many limped in
+const preflopAction = (state: GameState) => {
+    let highBet = state.minBet;
+    let raises = 0;
+    let lastRaiser: number | null = null;
+    let limpers = 0;
+    for (const e of state.history?.events ?? []) {
+        if (e.type === 'BOARD') break;
+        if (e.type !== 'ACTION' || e.action === 'FOLD' || e.action === 'CHECK') continue;
+        if (e.total > highBet) {
+            raises++;
+            lastRaiser = e.playerId;
+            highBet = e.total;
+        } else if (raises === 0) {
+            limpers++;
+        }
+    }
+    // Without a history fall back to what the current bet shows
+    if (!state.history && state.currentHighBet > state.minBet) raises = 1;
+    return { raises, lastRaiser, limpers };
+};
+
+const decidePreflop = (state: GameState, bot: Player, profile: PersonalityProfile, random: RandomSource): BotDecision => {
+    const bigBlind = state.minBet;
+    const callAmount = state.currentHighBet - bot.currentBet;
+    const group = positionGroup(positionName(state, bot.id));
+    const { raises, limpers } = preflopAction(state);
+    const isShort = (bot.chips + bot.currentBet) / bigBlind <= SHORT_STACK_BB;
+    const has = (range: HandRange) => inRange(range, bot.hand);
+    // Tighter profiles drop the weaker chart hands; looser ones also play hands outside the charts
+    const withinVpip = handPercentile(bot.hand) <= profile.vpip;
+    const plays = (range: HandRange) => has(range) && (profile.vpip >= BASE_PROFILE.vpip || withinVpip);
+    const isExtra = profile.vpip > BASE_PROFILE.vpip && withinVpip;
+
+    if (raises === 0) {
+        if (group === 'BB') return has(THREE_BET.BB) ? betTo(state, bigBlind * (3 + limpers)) : { action: 'CHECK' };
+        const openTo = bigBlind * ((group === 'SB' ? 3 : 2.5) + limpers);
+        if (plays(OPEN[group])) return isShort ? betTo(state, Infinity) : betTo(state, openTo);
+        if (isExtra && !isShort) return random() < profile.aggression ? betTo(state, openTo) : { action: 'CALL' };
+        // Complete the small blind or over-limp with hands that play well in a multiway pot
+        if ((group === 'SB' || limpers > 0) && plays(CALL[group]) && callAmount <= bigBlind) return { action: 'CALL' };
+        return checkOrFold(callAmount);
+    }
+
+    if (raises === 1) {
+        if (isShort) return has(SHOVE_VS_RAISE) ? betTo(state, Infinity) : checkOrFold(callAmount);
+        const threeBetTo = state.currentHighBet * (group === 'LATE' ? 3 : 4);
+        const canBluff = group !== 'EARLY' && group !== 'MIDDLE' && has(THREE_BET_BLUFF) && random() < profile.bluffFrequency;
+        if (has(THREE_BET[group]) || canBluff) return betTo(state, threeBetTo);
+        if (plays(CALL[group]) && callAmount <= bot.chips * 0.2 * profile.stickiness) return { action: 'CALL' };
+        if (isExtra && callAmount <= bot.chips * 0.1 * profile.stickiness) {
+            return random() < profile.bluffFrequency * profile.aggression ? betTo(state, threeBetTo) : { action: 'CALL' };
+        }
+        return checkOrFold(callAmount);
+    }
+
+    // Facing a 3-bet or more
+    if (has(FOUR_BET)) return isShort || bot.chips <= state.currentHighBet * 3 ? betTo(state, Infinity) : betTo(state, state.currentHighBet * 2.3);
+    if (has(CALL_THREE_BET) && callAmount <= bot.chips * 0.25 * profile.stickiness) return { action: 'CALL' };
+    return checkOrFold(callAmount);
+};
+
+type MadeHand = 'STRONG' | 'GOOD' | 'MEDIUM' | 'WEAK';
+
+// Grades the made hand by what the hole cards add to the board: sets, two pair and better are strong,
+// an overpair or top pair with a good kicker is good, other top or second pairs are medium
+const gradeMadeHand = (hole: Card[], board: Card[]): MadeHand => {
+    const hand = evaluateHand(hole, board);
+    const boardHand = evaluateHand([], board);
+    if (hand.category <= boardHand.category) return 'WEAK'; // Playing the board
+    if (hand.category >= HandCategory.THREE_OF_A_KIND) return 'STRONG';
+
+    const boardRanks = [...new Set(board.map((c) => c.rank))].sort((a, b) => b - a);
+    let pairRank = hand.tiebreakers[0];
+    if (hand.category === HandCategory.TWO_PAIR) {
+        if (boardHand.category === HandCategory.HIGH_CARD) return 'STRONG';
+        // On a paired board only the other pair comes from the hole cards
+        pairRank = hand.tiebreakers[0] === boardHand.tiebreakers[0] ? hand.tiebreakers[1] : hand.tiebreakers[0];
+    }
+
+    const isPocketPair = hole[0].rank === hole[1].rank;
+    if (isPocketPair && pairRank > boardRanks[0]) return 'GOOD';
+    if (pairRank === boardRanks[0]) {
+        const kicker = hole[0].rank === pairRank ? hole[1].rank : hole[0].rank;
+        return kicker >= 11 || isPocketPair ? 'GOOD' : 'MEDIUM';
+    }
+    return pairRank >= (boardRanks[1] ?? 0) ? 'MEDIUM' : 'WEAK';
+};
+
+const decidePostflop = (state: GameState, bot: Player, profile: PersonalityProfile, random: RandomSource): BotDecision => {
+    const callAmount = state.currentHighBet - bot.currentBet;
+    const isRiver = state.phase === GamePhase.RIVER;
+    const made = gradeMadeHand(bot.hand, state.communityCards);
+    const draws = findDraws(bot.hand, state.communityCards);
+    const drawEquity = outsEquity(draws.outs.length, state.communityCards);
+    const opponents = state.players.filter((p) => p.id !== bot.id && (p.status === PlayerStatus.ACTIVE || p.status === PlayerStatus.ALL_IN)).length;
+    const isAggressor = preflopAction(state).lastRaiser === bot.id;
+    const potOdds = (callAmount / (state.pot + callAmount)) * 100; // % of the final pot the call costs
+
+    if (callAmount <= 0) {
+        if (made === 'STRONG') return potBet(state, bot, isRiver ? 0.75 : 0.66);
+        if (made === 'GOOD') return potBet(state, bot, 0.5);
+        const bluff = profile.bluffFrequency;
+        if (draws.outs.length >= 8 && random() < bluff * 2) return potBet(state, bot, 0.5); // Semi-bluff
+        // Continuation bet the flop as the preflop raiser against one or two players
+        if (state.phase === GamePhase.FLOP && isAggressor && opponents <= 2 && random() < (made === 'MEDIUM' ? 0.5 + bluff : bluff * 2)) {
+            return potBet(state, bot, 0.33);
+        }
+        if (random() < bluff / 5) return potBet(state, bot, 0.5); // Stab at the pot
+        return { action: 'CHECK' };
+    }
+
+    const stickiness = profile.stickiness;
+    if (made === 'STRONG') return potBet(state, bot, 0.75);
+    if (draws.outs.length >= 12 && !isRiver && random() < profile.bluffFrequency) return potBet(state, bot, 0.75); // Big combo draw
+    if (made === 'GOOD' && potOdds <= (isRiver ? 33 : 40) * stickiness) return { action: 'CALL' };
+    if (made === 'MEDIUM' && potOdds <= (isRiver ? 20 : 25) * stickiness) return { action: 'CALL' };
+    // Draws call when the chance of hitting, plus a little for what a hit wins later, beats the price
+    const impliedOdds = state.phase === GamePhase.FLOP ? 0 : 5;
+    if (!isRiver && (drawEquity + impliedOdds) * stickiness >= potOdds) return { action: 'CALL' };
+    // Sticky profiles also pay off small bets with nothing
+    if (potOdds <= 15 * (stickiness - 1)) return { action: 'CALL' };
+    return { action: 'FOLD' };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Exploits what this session has shown about the players still in the hand: bluff more when even the
+// stickiest of them folds to continuation bets often, less when they call them, and call wider
+// against players who bet and raise a lot
+const adaptToOpponents = (state: GameState, bot: Player, profile: PersonalityProfile): PersonalityProfile => {
+    const opponents = state.players
+        .filter((p) => p.id !== bot.id && (p.status === PlayerStatus.ACTIVE || p.status === PlayerStatus.ALL_IN))
+        .map((p) => getTendencies(state, p))
+        .filter((t) => t !== undefined);
+    const foldRates = opponents.map((t) => rate(t.foldsToCbet, t.cbetsFaced)).filter((r) => r !== undefined);
+    const aggression = opponents.map(aggressionFactor).filter((af) => af !== undefined);
+
+    const bluffFactor = foldRates.length > 0 ? clamp(Math.min(...foldRates) / 0.5, 0.3, 2) : 1;
+    const callFactor = aggression.length > 0 ? clamp(Math.max(...aggression) / 2, 0.8, 1.3) : 1;
+    return { ...profile, bluffFrequency: Math.min(1, profile.bluffFrequency * bluffFactor), stickiness: profile.stickiness * callFactor };
+};
+
+// Passive profiles turn some bets and raises into checks and calls; aggressive ones raise some of their calls
+const applyAggression = (state: GameState, bot: Player, decision: BotDecision, profile: PersonalityProfile, random: RandomSource): BotDecision => {
+    const shift = profile.aggression - BASE_PROFILE.aggression;
+    const isRaise = decision.action === 'BET' || decision.action === 'RAISE';
+    if (isRaise && shift < 0 && random() < -shift / BASE_PROFILE.aggression) {
+        return { action: state.currentHighBet > bot.currentBet ? 'CALL' : 'CHECK' };
+    }
+    if (decision.action === 'CALL' && shift > 0 && random() < shift / (1 - BASE_PROFILE.aggression)) return potBet(state, bot, 0.75);
+    return decision;
+};
+
+// Plays preflop from position-dependent range charts and postflop by made hand, draws and pot odds,
+// sizing bets as a fraction of the pot. The bot's personality widens or narrows the ranges and sets
+// how often it bluffs, calls and raises (the Solid Regular profile plays the charts as they are), and
+// the session's opponent model shifts those against the players in the hand.
+export const rulesStrategy: BotStrategy = {
+    kind: BotStrategyKind.RULES,
+    decide: async (state, bot, random) => {
+        const profile = adaptToOpponents(state, bot, getProfile(bot.personality));
+        const decision =
+            state.phase === GamePhase.PRE_FLOP ? decidePreflop(state, bot, profile, random) : decidePostflop(state, bot, profile, random);
+        return applyAggression(state, bot, decision, profile, random);
+    },
+};
@@ -0,0 +1,39 @@
+import { LanguageModel } from './languageModelStrategy.ts';
+
+const RANKS: Record<string, number> = { J: 11, Q: 12, K: 13, A: 14 };
+
+const readNumber = (prompt: string, label: string): number => {
+    const match = prompt.match(new RegExp(`${label.replace(/[()/]/g, '\\$&')}: (\\d+)`));
+    return match ? Number(match[1]) : 0;
+};
+
+const readRanks = (prompt: string, label: string): number[] => {
+    const match = prompt.match(new RegExp(`${label}: \\[([^\\]]*)\\]`));
+    if (!match || !match[1]) return [];
+    return match[1].split(',').map((card) => {
+        const value = card.slice(0, -1);
+        return RANKS[value] ?? Number(value);
+    });
+};
+
+// Offline stand-in for a hosted model, for simulations and tests. It reads only what the decision prompt
+// says (hand, board, pot and prices) and answers in the same JSON a real model would, wrapped in a code
+// fence like many chat models do, so the prompt, the reply parser and the repair step are all exercised.
+export const stubModel: LanguageModel = async (prompt) => {
+    const hand = readRanks(prompt, 'Your Hand');
+    const board = readRanks(prompt, 'Community Cards');
+    const toCall = readNumber(prompt, 'Cost to Call');
+    const minRaise = readNumber(prompt, 'Min Raise/Bet (total)');
+    const pot = readNumber(prompt, 'Pot Size');
+
+    const isPair = hand.length === 2 && hand[0] === hand[1];
+    const pairsBoard = hand.some((rank) => board.includes(rank));
+    const isStrong = board.length === 0 ? isPair || Math.min(...hand) >= 10 : isPair || pairsBoard;
+
+    let reply: { action: string; raiseAmount?: number };
+    if (isStrong) reply = { action: toCall > 0 ? 'RAISE' : 'BET', raiseAmount: Math.max(minRaise, Math.round(pot / 2)) };
+    else if (toCall === 0) reply = { action: 'CHECK' };
+    else reply = { action: toCall <= pot / 4 ? 'CALL' : 'FOLD' };
+
+    return `\`\`\`json\n${JSON.stringify(reply)}\n\`\`\``;
+};
@@ -20,7 +20,8 @@ export enum PlayerStatus {
   ACTIVE = 'ACTIVE', // Still in the hand
   FOLDED = 'FOLDED', // Folded this hand
   ALL_IN = 'ALL_IN', // Bet everything
-  BUSTED = 'BUSTED' // Out of the game (0 chips)
+  BUSTED = 'BUSTED', // Out of the game (0 chips)
+  SITTING_OUT = 'SITTING_OUT' // Keeps the seat but is not dealt in
 }
 
 export interface Player {
@@ -33,6 +34,23 @@ export interface Player {
   currentBet: number; // Amount bet in the current betting round
   totalHandBet: number; // Total amount bet in this hand
   lastAction?: string;
+  actedAtBet?: number; // Table high bet right after this player's last action in the current round
+  sittingOut?: boolean; // Skip this player from the next hand on (cash games)
+  personality?: BotPersonality; // Bots only
+}
+
+export type ActionType = 'FOLD' | 'CHECK' | 'CALL' | 'BET' | 'RAISE' | 'ALL_IN';
+
+export interface PlayerAction {
+  type: ActionType;
+  playerIndex: number;
+  amount?: number; // BET/RAISE: the total the player's round bet should become
+}
+
+export interface LegalAction {
+  type: ActionType;
+  minAmount?: number; // Round-bet total bounds for BET/RAISE, chips put in for CALL/ALL_IN
+  maxAmount?: number;
 }
 
 export enum GamePhase {
@@ -44,6 +62,26 @@ export enum GamePhase {
   GAME_OVER = 'Game Over'
 }
 
+export interface Pot {
+  amount: number;
+  eligiblePlayerIds: number[]; // Non-folded players who put in enough to contest this pot
+}
+
+export interface PotAward {
+  playerId: number;
+  amount: number;
+}
+
+export interface PotResult extends Pot {
+  name: string; // 'Main Pot', 'Side Pot 1', ...
+  awards: PotAward[];
+}
+
+export interface PotShare {
+  potName: string;
+  amount: number;
+}
+
 export interface ShowdownResult {
   playerId: number;
   name: string;
@@ -52,10 +90,179 @@ export interface ShowdownResult {
   holeCards: Card[];
   winningCards: Card[]; // The best 5 cards
   amount: number; // Win amount (0 if lost)
+  potShares: PotShare[]; // Breakdown of amount by pot
   isWinner: boolean;
   score: number;
 }
 
+export enum GameMode {
+  CLASSIC = 'CLASSIC', // Fixed blinds until one player has every chip
+  TOURNAMENT = 'TOURNAMENT', // Sit-and-go with rising blind levels
+  CASH = 'CASH' // Rebuys and top-ups, busted bots are replaced
+}
+
+export interface BlindLevel {
+  smallBlind: number;
+  bigBlind: number;
+  ante: number; // Per-player ante, or the single big-blind ante when bigBlindAnte is set
+  bigBlindAnte: boolean; // The big blind posts one ante for the whole table
+}
+
+export interface BlindSchedule {
+  levels: BlindLevel[];
+  advanceBy: 'HANDS' | 'MINUTES';
+  levelLength: number; // Hands or minutes per level
+}
+
+export interface TournamentOptions {
+  advanceBy: BlindSchedule['advanceBy'];
+  levelLength: number;
+  antes: boolean;
+  bigBlindAnte: boolean;
+}
+
+export interface FinishingPlace {
+  playerId: number;
+  name: string;
+  place: number; // 1 = winner
+  handNumber: number; // Hand in which the player busted
+}
+
+export interface TournamentState {
+  levelIndex: number;
+  handNumber: number; // Hands started so far
+  levelStartHand: number;
+  levelStartedAt: number; // Epoch ms
+  finishes: FinishingPlace[];
+}
+
+export interface CashOptions {
+  minBuyIn: number;
+  maxBuyIn: number; // Also the cap for top-ups
+}
+
+export interface CashSession {
+  totalBuyIn: number; // Everything the user has bought in for, including rebuys and top-ups
+  rebuys: number;
+  topUps: number;
+  botsReplaced: number;
+  pendingChips: number; // Bought while sitting out a hand in play; added to the stack when the next hand is dealt
+}
+
+export enum BotStrategyKind {
+  GEMINI = 'GEMINI', // Asks Gemini for every decision
+  OPENAI = 'OPENAI', // Any OpenAI-compatible chat completions endpoint, e.g. a local model server
+  RULES = 'RULES', // Local preflop range charts and postflop hand-strength rules (also the fallback when a model cannot be reached)
+  RANDOM = 'RANDOM' // Weighted random play
+}
+
+export enum BotPersonality {
+  TIGHT_PASSIVE = 'TIGHT_PASSIVE', // Plays few hands and seldom raises
+  LOOSE_AGGRESSIVE = 'LOOSE_AGGRESSIVE', // Plays many hands and keeps up the pressure
+  CALLING_STATION = 'CALLING_STATION', // Calls far too often and rarely folds
+  MANIAC = 'MANIAC', // Raises and bluffs with almost anything
+  SOLID_REGULAR = 'SOLID_REGULAR' // Plays the standard range charts
+}
+
+export interface PersonalityProfile {
+  label: string;
+  badge: string; // Short tag shown on the bot's seat
+  description: string; // One line on how the bot plays, also given to language models
+  difficulty: 'Easy' | 'Medium' | 'Hard';
+  vpip: number; // % of hands played voluntarily before the flop
+  aggression: number; // 0-1: how much it prefers betting and raising over checking and calling
+  bluffFrequency: number; // 0-1: how often it bets without a hand or a draw
+  stickiness: number; // Scales how much of the pot it will call with a marginal hand (1 = standard)
+}
+
+export interface OpenAiEndpoint {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey: string; // Sent as a bearer token when set
+}
+
+export interface SeatConfig {
+  name: string; // Display name (ignored for the user's own seat)
+  stack: number; // Starting chips
+  strategy: BotStrategyKind; // How the bot in this seat decides (ignored for the user's own seat)
+  personality: BotPersonality; // The bot's playing style (ignored for the user's own seat)
+}
+
+export interface TableConfig {
+  seatCount: number; // 2-10
+  smallBlind: number;
+  bigBlind: number;
+  ante: number; // Posted by every player each hand, 0 for none
+  userSeat: number; // Seat index the user sits in
+  seats: SeatConfig[]; // One entry per seat
+  seed?: number; // Session seed; a random one is picked when unset
+  mode: GameMode;
+  tournament: TournamentOptions; // Tournament mode only: the schedule starts from the blinds above
+  cash: CashOptions; // Cash mode only
+  openAi: OpenAiEndpoint; // Used by seats with the OPENAI strategy
+  showHandHelper: boolean; // Shows the user's made hand, draws and pot odds next to the controls
+}
+
+export type HandEvent =
+  | { type: 'POST'; playerId: number; kind: 'ANTE' | 'SMALL_BLIND' | 'BIG_BLIND'; amount: number }
+  | { type: 'DEAL'; playerId: number; cards: Card[] } // Hole cards
+  | { type: 'ACTION'; playerId: number; action: ActionType; amount: number; total: number; isAllIn: boolean } // amount: chips put in, total: round bet after
+  | { type: 'BOARD'; phase: GamePhase; cards: Card[] } // Cards added to the board on this street
+  | { type: 'SHOW'; playerId: number; cards: Card[]; description: string }
+  | { type: 'UNCALLED'; playerId: number; amount: number } // Bet nobody matched, returned to its owner
+  | { type: 'AWARD'; playerId: number; potName: string; amount: number };
+
+export interface HandHistorySeat {
+  playerId: number;
+  name: string;
+  role: PlayerRole;
+  stack: number; // Chips before antes and blinds
+}
+
+export interface HandHistory {
+  id: string;
+  handNumber: number;
+  handSeed: number;
+  startedAt: number; // Epoch ms
+  smallBlind: number;
+  bigBlind: number;
+  ante: number;
+  seatCount: number;
+  dealerIndex: number;
+  seats: HandHistorySeat[]; // Players dealt into the hand
+  events: HandEvent[];
+  board: Card[];
+}
+
+export interface ShownHand {
+  handNumber: number;
+  cards: Card[];
+  description: string; // e.g. 'Two Pair'
+  won: boolean;
+}
+
+// What a player has done so far this session, counted per hand they were dealt into
+export interface PlayerTendencies {
+  name: string; // Stats restart when a different player takes the seat
+  hands: number;
+  vpip: number; // Hands where they put money in voluntarily before the flop
+  pfr: number; // Hands where they raised before the flop
+  threeBets: number; // Re-raises of a single preflop raise...
+  threeBetChances: number; // ...out of the times they faced exactly one raise
+  bets: number; // Bets and raises on any street
+  calls: number;
+  cbets: number; // Flop bets as the preflop raiser...
+  cbetChances: number; // ...out of the flops they could bet first as the preflop raiser
+  foldsToCbet: number; // Folds to a continuation bet...
+  cbetsFaced: number; // ...out of the continuation bets they had to answer
+  sawFlop: number;
+  showdowns: number;
+  showdownsWon: number;
+  shownHands: ShownHand[]; // Most recent last
+}
+
+export type OpponentModel = Record<number, PlayerTendencies>; // Keyed by seat
+
 export interface GameState {
   players: Player[];
   pot: number;
@@ -64,17 +271,44 @@ export interface GameState {
   dealerIndex: number;
   activePlayerIndex: number;
   currentHighBet: number;
+  lastRaiseSize: number; // Size of the last full bet or raise this round (the minimum raise increment)
+  lastFullBet: number; // Round-bet level set by the last full bet or raise
   phase: GamePhase;
   isGameRunning: boolean;
   minBet: number; // Big Blind
-  smallBlindIndex: number;
+  smallBlindIndex: number; // Seat of the small blind, kept even when it is dead so the button can move onto it
+  smallBlindDead: boolean; // The small blind's seat is empty this hand, so nobody posted it
   bigBlindIndex: number;
   showdownResults: ShowdownResult[];
+  potResults: PotResult[];
+  chipTotal: number; // Chips at the table when the hand started, checked again once it is resolved
+  seed: number; // Session seed every hand seed is derived from
+  handNumber: number; // Hands dealt this session
+  handSeed: number; // Seed the current hand's deck was shuffled with
+  pendingHandSeed?: number; // Deal the next hand from this seed instead of the session's next one
+  history?: HandHistory; // Everything that has happened in the current hand
+  opponentModel?: OpponentModel; // Every player's tendencies over the finished hands of the session
+  tournament?: TournamentState; // Only set in tournament mode
+  cash?: CashSession; // Only set in cash mode
   message: string;
 }
 
+export enum HandCategory {
+  HIGH_CARD = 0,
+  PAIR = 1,
+  TWO_PAIR = 2,
+  THREE_OF_A_KIND = 3,
+  STRAIGHT = 4,
+  FLUSH = 5,
+  FULL_HOUSE = 6,
+  FOUR_OF_A_KIND = 7,
+  STRAIGHT_FLUSH = 8
+}
+
 export interface HandRank {
-  score: number;
+  category: HandCategory;
+  tiebreakers: number[]; // Ranks compared in order after the category (e.g. pair rank, then kickers)
+  score: number; // Category and tiebreakers packed into one comparable number
   name: string;
   cards: Card[];
 }
\ No newline at end of file
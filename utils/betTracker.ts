@@ -0,0 +1,30 @@
+import { HandEvent } from '../types.ts';
+
+// What a recorded action did to the betting
+export type BetKind = 'FOLD' | 'CHECK' | 'CALL' | 'BET' | 'RAISE';
+
+export interface BetRead {
+    kind: BetKind; // An all-in is a CALL when it does not go over the bet to match
+    facing: number; // Round bet to match before the action, 0 when nobody has bet this street
+}
+
+export interface BetTracker {
+    read: (e: HandEvent) => BetRead | undefined; // Takes every event of the hand in order; answers for actions only
+}
+
+// Follows the bet to match through a hand's events, so exports, prompts and stats agree on what was a call,
+// a bet or a raise. Preflop it starts at the full big blind even when the big blind was posted short, so
+// calling the full blind behind a short all-in is still a call.
+export const createBetTracker = (bigBlind: number): BetTracker => {
+    let highBet = bigBlind;
+    return {
+        read: (e) => {
+            if (e.type === 'BOARD') highBet = 0;
+            if (e.type !== 'ACTION') return undefined;
+            const facing = highBet;
+            highBet = Math.max(highBet, e.total);
+            if (e.action === 'FOLD' || e.action === 'CHECK') return { kind: e.action, facing };
+            return { kind: e.total <= facing ? 'CALL' : facing === 0 ? 'BET' : 'RAISE', facing };
+        },
+    };
+};
@@ -0,0 +1,132 @@
+import { GameState, Player, PlayerRole, PlayerStatus, GamePhase, TableConfig, CashSession } from '../types.ts';
+import { startHand } from './gameEngine.ts';
+
+const REPLACEMENT_BOT_NAMES = ['Ace', 'Blaze', 'Chipper', 'Dealer Dan', 'Echo', 'Flint', 'Gus', 'Harper', 'Iris', 'Jett', 'Knox', 'Luna'];
+
+export const createCashSession = (userStack: number): CashSession => ({
+    totalBuyIn: userStack,
+    rebuys: 0,
+    topUps: 0,
+    botsReplaced: 0,
+    pendingChips: 0,
+});
+
+const findUser = (state: GameState) => state.players.find((p) => p.role === PlayerRole.USER);
+
+// Only between hands can chips reach the table: the engine checks every hand against the chip total
+// it started with
+const isBetweenHands = (state: GameState) => !state.isGameRunning || state.phase === GamePhase.SHOWDOWN;
+
+// The user can buy chips between hands, or while sitting out a hand in play. Chips bought during a hand
+// wait in the session's pendingChips until the next one is dealt.
+export const canChangeStack = (state: GameState): boolean =>
+    isBetweenHands(state) || findUser(state)?.status === PlayerStatus.SITTING_OUT;
+
+// The user's stack including chips waiting for the next hand
+const stackWithPending = (state: GameState, user: Player) => user.chips + (state.cash?.pendingChips ?? 0);
+
+// User's net result for the session: current stack minus everything bought in for.
+// Chips already in a pot that is still being played count as the user's until it is decided.
+export const netResult = (state: GameState): number => {
+    const user = findUser(state);
+    if (!user || !state.cash) return 0;
+    const inPot = state.isGameRunning && state.phase !== GamePhase.SHOWDOWN ? user.totalHandBet : 0;
+    return stackWithPending(state, user) + inPot - state.cash.totalBuyIn;
+};
+
+const updateUser = (state: GameState, update: (user: Player) => Player): Player[] =>
+    state.players.map((p) => (p.role === PlayerRole.USER ? update(p) : p));
+
+// Puts bought chips on the table between hands, or holds them for the next hand while one is played
+const addChips = (state: GameState, chips: number, changes: Partial<Player>): Pick<GameState, 'players' | 'cash'> => {
+    const cash = state.cash!;
+    if (isBetweenHands(state)) {
+        return { players: updateUser(state, (p) => ({ ...p, ...changes, chips: p.chips + chips })), cash };
+    }
+    return { players: updateUser(state, (p) => ({ ...p, ...changes })), cash: { ...cash, pendingChips: cash.pendingChips + chips } };
+};
+
+// Buys back in after busting. The amount is clamped into the table's buy-in range.
+export const rebuy = (state: GameState, config: TableConfig, amount: number): GameState => {
+    const user = findUser(state);
+    if (!user || !state.cash || stackWithPending(state, user) > 0 || !canChangeStack(state)) return state;
+
+    const { minBuyIn, maxBuyIn } = config.cash;
+    const chips = Math.min(maxBuyIn, Math.max(minBuyIn, amount));
+    const { players, cash } = addChips(state, chips, { sittingOut: false });
+    const next = isBetweenHands(state) ? '' : ' The chips join your stack next hand.';
+    return {
+        ...state,
+        players,
+        cash: { ...cash, totalBuyIn: cash.totalBuyIn + chips, rebuys: cash.rebuys + 1 },
+        message:
+            (chips === amount ? `You rebought for $${chips}.` : `Rebuys must be between $${minBuyIn} and $${maxBuyIn}; you rebought for $${chips}.`) + next,
+    };
+};
+
+// Adds chips to the user's stack, up to the maximum buy-in
+export const topUp = (state: GameState, config: TableConfig, amount: number): GameState => {
+    const user = findUser(state);
+    if (!user || !state.cash || stackWithPending(state, user) === 0 || !canChangeStack(state)) return state;
+
+    const added = Math.max(0, Math.min(amount, config.cash.maxBuyIn - stackWithPending(state, user)));
+    if (added === 0) return { ...state, message: `Your stack is already at the $${config.cash.maxBuyIn} maximum.` };
+    const { players, cash } = addChips(state, added, {});
+    const next = isBetweenHands(state) ? '' : ' The chips join your stack next hand.';
+    return {
+        ...state,
+        players,
+        cash: { ...cash, totalBuyIn: cash.totalBuyIn + added, topUps: cash.topUps + 1 },
+        message: (added === amount ? `You topped up $${added}.` : `Top-ups are capped at $${config.cash.maxBuyIn}; you added $${added}.`) + next,
+    };
+};
+
+// Sits the user out from the next hand on, or deals them back in
+export const setSittingOut = (state: GameState, sittingOut: boolean): GameState => ({
+    ...state,
+    players: updateUser(state, (p) => ({ ...p, sittingOut })),
+    message: sittingOut ? 'You will sit out from the next hand.' : 'You will be dealt in next hand.',
+});
+
+// Ends the session, summarising the result
+export const leaveTable = (state: GameState): GameState => {
+    const net = netResult(state);
+    const user = findUser(state);
+    return {
+        ...state,
+        isGameRunning: false,
+        phase: GamePhase.GAME_OVER,
+        activePlayerIndex: -1,
+        message: `You left the table with $${user ? stackWithPending(state, user) : 0} (net ${net >= 0 ? '+' : '-'}$${Math.abs(net)}).`,
+    };
+};
+
+// Puts a fresh bot with a new name into every seat whose bot has run out of chips
+const replaceBustedBots = (state: GameState, config: TableConfig): GameState => {
+    const session = state.cash!;
+    const names = new Set(state.players.map((p) => p.name));
+    let replaced = 0;
+    const players = state.players.map((p) => {
+        if (p.role !== PlayerRole.BOT || p.chips > 0) return p;
+        const name = REPLACEMENT_BOT_NAMES.find((n) => !names.has(n)) ?? `Bot ${p.id + 1}.${session.botsReplaced + replaced + 1}`;
+        names.add(name);
+        replaced++;
+        const stack = Math.min(config.cash.maxBuyIn, Math.max(config.cash.minBuyIn, config.seats[p.id]?.stack ?? config.cash.maxBuyIn));
+        return { ...p, name, chips: stack, sittingOut: false };
+    });
+    return { ...state, players, cash: { ...session, botsReplaced: session.botsReplaced + replaced } };
+};
+
+// Starts the next cash hand. A busted user sits out until they rebuy instead of ending the game.
+export const startCashHand = (state: GameState, config: TableConfig, dealerIndex?: number): GameState => {
+    const user = findUser(state);
+    const session = state.cash ?? createCashSession(user?.chips ?? 0);
+    const pending = session.pendingChips;
+    const prepared = replaceBustedBots({ ...state, cash: { ...session, pendingChips: 0 } }, config);
+    const players = prepared.players.map((p) => {
+        if (p.role !== PlayerRole.USER) return p;
+        const chips = p.chips + pending; // Chips bought during the last hand
+        return chips === 0 ? { ...p, sittingOut: true } : { ...p, chips };
+    });
+    return startHand({ ...prepared, players }, { smallBlind: config.smallBlind, bigBlind: config.bigBlind, ante: config.ante }, dealerIndex);
+};
@@ -0,0 +1,65 @@
+import { Card, HandCategory } from '../types.ts';
+import { createDeck, evaluateHand } from './pokerLogic.ts';
+
+export interface DrawInfo {
+    flushDraw: boolean;
+    straightDraw: 'OPEN_ENDED' | 'GUTSHOT' | null; // Two or more completing ranks count as open-ended
+    outs: Card[]; // Unseen cards that complete one of the draws with a hole card
+    improvements: Card[]; // Other unseen cards that turn a made hand into a full house or better
+}
+
+const NO_DRAW: DrawInfo = { flushDraw: false, straightDraw: null, outs: [], improvements: [] };
+
+const hasFlush = (cards: Card[]) => {
+    const counts: Record<string, number> = {};
+    return cards.some((c) => (counts[c.suit] = (counts[c.suit] ?? 0) + 1) >= 5);
+};
+
+const hasStraight = (cards: Card[]) => {
+    const ranks = new Set(cards.map((c) => c.rank));
+    if (ranks.has(14)) ranks.add(1); // The ace also plays low in A-2-3-4-5
+    for (let high = 14; high >= 5; high--) {
+        if ([0, 1, 2, 3, 4].every((i) => ranks.has(high - i))) return true;
+    }
+    return false;
+};
+
+// Straight and flush draws for hole cards on a flop or turn, found by trying every unseen card. An out
+// completes a straight or flush the board alone does not show; cards that only pair the board are not outs.
+// Cards that fill up a set or two pair are listed apart, so they are not mistaken for draw outs.
+export const findDraws = (holeCards: Card[], communityCards: Card[]): DrawInfo => {
+    if (holeCards.length < 2 || communityCards.length < 3 || communityCards.length > 4) return NO_DRAW;
+
+    const seen = new Set([...holeCards, ...communityCards].map((c) => `${c.rank}${c.suit}`));
+    const current = evaluateHand(holeCards, communityCards).category;
+    if (current >= HandCategory.STRAIGHT) return NO_DRAW;
+
+    const outs: Card[] = [];
+    const improvements: Card[] = [];
+    const straightRanks = new Set<number>();
+    let flushDraw = false;
+
+    for (const card of createDeck()) {
+        if (seen.has(`${card.rank}${card.suit}`)) continue;
+        const board = [...communityCards, card];
+        const all = [...holeCards, ...board];
+        const makesFlush = hasFlush(all) && !hasFlush(board);
+        const makesStraight = hasStraight(all) && !hasStraight(board);
+
+        if (makesFlush || makesStraight) {
+            outs.push(card);
+            if (makesFlush) flushDraw = true;
+            if (makesStraight) straightRanks.add(card.rank);
+            continue;
+        }
+        const made = evaluateHand(holeCards, board).category;
+        if (made >= HandCategory.FULL_HOUSE && evaluateHand([], board).category < made) improvements.push(card);
+    }
+
+    const straightDraw = straightRanks.size >= 2 ? 'OPEN_ENDED' : straightRanks.size === 1 ? 'GUTSHOT' : null;
+    return { flushDraw, straightDraw, outs, improvements };
+};
+
+// Rule of 4 and 2: the rough % chance of hitting an out by the river (flop) or on the river (turn)
+export const outsEquity = (outs: number, communityCards: Card[]): number =>
+    Math.min(100, outs * (communityCards.length === 3 ? 4 : 2));
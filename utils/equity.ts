@@ -0,0 +1,120 @@
+import { Card } from '../types.ts';
+import { createDeck } from './pokerLogic.ts';
+import { encodeCards, evaluateScore } from './fastEvaluator.ts';
+import { RandomSource } from './random.ts';
+
+export interface PlayerEquity {
+    win: number; // % of runouts won outright
+    tie: number; // % of runouts shared with someone else
+    equity: number; // % of the pot won on average, ties counted as a share
+}
+
+export interface EquityResult {
+    players: PlayerEquity[]; // Same order as the hands passed in
+    runouts: number; // Boards (and unknown hole cards) evaluated
+    isExact: boolean; // Every possible runout was enumerated rather than sampled
+}
+
+export interface EquityOptions {
+    iterations?: number; // Monte Carlo samples
+    exactLimit?: number; // Enumerate every runout when there are at most this many
+    random?: RandomSource;
+}
+
+const DEFAULT_ITERATIONS = 10000;
+const DEFAULT_EXACT_LIMIT = 20000;
+
+const cardKey = (c: Card) => `${c.rank}${c.suit}`;
+
+// Number of ways to choose k cards out of n
+const combinations = (n: number, k: number) => {
+    let result = 1;
+    for (let i = 0; i < k; i++) result = (result * (n - i)) / (i + 1);
+    return Math.round(result);
+};
+
+// Calls visit with every k-card combination of cards
+const forEachCombination = (cards: number[], k: number, visit: (combo: number[]) => void) => {
+    const combo: number[] = [];
+    const walk = (start: number) => {
+        if (combo.length === k) {
+            visit(combo);
+            return;
+        }
+        for (let i = start; i <= cards.length - (k - combo.length); i++) {
+            combo.push(cards[i]);
+            walk(i + 1);
+            combo.pop();
+        }
+    };
+    walk(0);
+};
+
+// Works out each player's chance of winning from the cards that are known. Hands may hold fewer than
+// two cards (or none) for players whose cards are unknown; those are dealt at random like the board.
+// Every runout is enumerated when there are few enough of them, otherwise runouts are sampled.
+export const calculateEquity = (hands: Card[][], board: Card[] = [], dead: Card[] = [], options: EquityOptions = {}): EquityResult => {
+    if (hands.length < 2) throw new Error('Equity needs at least two hands.');
+    if (board.length > 5) throw new Error('The board cannot have more than five cards.');
+    if (hands.some((h) => h.length > 2)) throw new Error('A hand cannot have more than two cards.');
+
+    const known = [...hands.flat(), ...board, ...dead].map(cardKey);
+    if (new Set(known).size !== known.length) throw new Error('The same card appears more than once.');
+
+    const { iterations = DEFAULT_ITERATIONS, exactLimit = DEFAULT_EXACT_LIMIT, random = Math.random } = options;
+    const stub = encodeCards(createDeck().filter((c) => !known.includes(cardKey(c))));
+    const knownHands = hands.map(encodeCards);
+    const knownBoard = encodeCards(board);
+    const boardNeeded = 5 - board.length;
+    const holeNeeded = hands.reduce((sum, h) => sum + 2 - h.length, 0);
+    const wins = hands.map(() => 0);
+    const ties = hands.map(() => 0);
+    const shares = hands.map(() => 0);
+    let runouts = 0;
+
+    // Scores one complete deal: the first cards fill the missing hole cards, the rest complete the board
+    const score = (extra: number[]) => {
+        let next = 0;
+        const fullHands = knownHands.map((h) => {
+            const missing = 2 - h.length;
+            const full = missing > 0 ? [...h, ...extra.slice(next, next + missing)] : h;
+            next += missing;
+            return full;
+        });
+        const fullBoard = [...knownBoard, ...extra.slice(next)];
+        const scores = fullHands.map((h) => evaluateScore([...h, ...fullBoard]));
+        const best = Math.max(...scores);
+        const winners = scores.filter((s) => s === best).length;
+        scores.forEach((s, i) => {
+            if (s !== best) return;
+            if (winners === 1) wins[i]++;
+            else ties[i]++;
+            shares[i] += 1 / winners;
+        });
+        runouts++;
+    };
+
+    // Unknown hole cards make exact enumeration count orderings too, so only sample those
+    const isExact = holeNeeded === 0 && combinations(stub.length, boardNeeded) <= exactLimit;
+    if (isExact) {
+        forEachCombination(stub, boardNeeded, score);
+    } else {
+        const needed = holeNeeded + boardNeeded;
+        const deck = [...stub];
+        for (let n = 0; n < iterations; n++) {
+            // Partial Fisher-Yates: only the cards about to be dealt need shuffling
+            for (let i = 0; i < needed; i++) {
+                const j = i + Math.floor(random() * (deck.length - i));
+                [deck[i], deck[j]] = [deck[j], deck[i]];
+            }
+            score(deck.slice(0, needed));
+        }
+    }
+
+    const pct = (n: number) => (runouts > 0 ? (n / runouts) * 100 : 0);
+    return {
+        players: hands.map((_, i) => ({ win: pct(wins[i]), tie: pct(ties[i]), equity: pct(shares[i]) })),
+        runouts,
+        isExact,
+    };
+};
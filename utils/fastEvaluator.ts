@@ -0,0 +1,126 @@
+import { Card, Suit, HandCategory } from '../types.ts';
+
+// Compact card encoding for the fast evaluator: (rank - 2) + 13 * suit, so every card is an integer 0-51
+const SUITS = [Suit.HEARTS, Suit.DIAMONDS, Suit.CLUBS, Suit.SPADES];
+
+export const encodeCard = (card: Card): number => card.rank - 2 + 13 * SUITS.indexOf(card.suit);
+
+export const encodeCards = (cards: Card[]): number[] => cards.map(encodeCard);
+
+// Tables are indexed by a 13-bit rank mask (bit 0 = deuce, bit 12 = ace)
+const MASKS = 1 << 13;
+const POPCOUNT = new Uint8Array(MASKS);
+const STRAIGHT_HIGH = new Uint8Array(MASKS); // Rank (2-14) of the best straight in the mask, 0 if none
+const TOP5 = new Uint32Array(MASKS); // The mask's five highest ranks packed as tiebreakers
+
+// Same base-15 packing as the reference evaluator's scores
+const B1 = 15;
+const B2 = B1 * 15;
+const B3 = B2 * 15;
+const B4 = B3 * 15;
+const B5 = B4 * 15;
+
+const WHEEL = (1 << 12) | 0b1111; // A-2-3-4-5
+
+for (let mask = 1; mask < MASKS; mask++) {
+    POPCOUNT[mask] = POPCOUNT[mask >> 1] + (mask & 1);
+
+    for (let top = 12; top >= 4; top--) {
+        const run = 0b11111 << (top - 4);
+        if ((mask & run) === run) {
+            STRAIGHT_HIGH[mask] = top + 2;
+            break;
+        }
+    }
+    if (!STRAIGHT_HIGH[mask] && (mask & WHEEL) === WHEEL) STRAIGHT_HIGH[mask] = 5;
+
+    let packed = 0;
+    let taken = 0;
+    for (let bit = 12; bit >= 0 && taken < 5; bit--) {
+        if (mask & (1 << bit)) {
+            packed = packed * 15 + bit + 2;
+            taken++;
+        }
+    }
+    for (; taken < 5; taken++) packed *= 15;
+    TOP5[mask] = packed;
+}
+
+// Highest rank (2-14) in a non-empty mask
+const highRank = (mask: number) => 33 - Math.clz32(mask);
+// Mask with its highest rank removed
+const dropHigh = (mask: number) => mask & ~(1 << (31 - Math.clz32(mask)));
+
+// Scores 5, 6 or 7 encoded cards. The result equals `evaluateHand(...).score` for the same cards,
+// it just skips building names and card lists.
+export const evaluateScore = (cards: ArrayLike<number>): number => {
+    const suitMasks = [0, 0, 0, 0];
+    let ones = 0; // Ranks seen at least once
+    let twos = 0; // ... at least twice
+    let threes = 0;
+    let fours = 0;
+    for (let i = 0; i < cards.length; i++) {
+        const c = cards[i];
+        const bit = 1 << c % 13;
+        suitMasks[(c / 13) | 0] |= bit;
+        fours |= threes & bit;
+        threes |= twos & bit;
+        twos |= ones & bit;
+        ones |= bit;
+    }
+
+    // With seven cards a flush rules out quads and full houses, so it can be settled first
+    for (let s = 0; s < 4; s++) {
+        const suited = suitMasks[s];
+        if (POPCOUNT[suited] >= 5) {
+            const sf = STRAIGHT_HIGH[suited];
+            if (sf) return HandCategory.STRAIGHT_FLUSH * B5 + sf * B4;
+            return HandCategory.FLUSH * B5 + TOP5[suited];
+        }
+    }
+
+    if (fours) {
+        const quad = highRank(fours);
+        const kicker = highRank(ones & ~(1 << (quad - 2)));
+        return HandCategory.FOUR_OF_A_KIND * B5 + quad * B4 + kicker * B3;
+    }
+
+    const trips = threes;
+    const pairs = twos & ~threes; // Ranks seen exactly twice
+    if (trips) {
+        const trip = highRank(trips);
+        const rest = (trips & ~(1 << (trip - 2))) | pairs;
+        if (rest) return HandCategory.FULL_HOUSE * B5 + trip * B4 + highRank(rest) * B3;
+    }
+
+    const straight = STRAIGHT_HIGH[ones];
+    if (straight) return HandCategory.STRAIGHT * B5 + straight * B4;
+
+    if (trips) {
+        const trip = highRank(trips);
+        const kickers = ones & ~(1 << (trip - 2));
+        const k1 = highRank(kickers);
+        const k2 = highRank(dropHigh(kickers));
+        return HandCategory.THREE_OF_A_KIND * B5 + trip * B4 + k1 * B3 + k2 * B2;
+    }
+
+    if (POPCOUNT[pairs] >= 2) {
+        const p1 = highRank(pairs);
+        const p2 = highRank(dropHigh(pairs));
+        const kickers = ones & ~(1 << (p1 - 2)) & ~(1 << (p2 - 2));
+        return HandCategory.TWO_PAIR * B5 + p1 * B4 + p2 * B3 + (kickers ? highRank(kickers) : 0) * B2;
+    }
+
+    if (pairs) {
+        const pair = highRank(pairs);
+        // TOP5 of the kickers holds the best three in its top three digits; drop the last two and shift into place
+        const kickers = Math.floor(TOP5[ones & ~(1 << (pair - 2))] / B2) * B1;
+        return HandCategory.PAIR * B5 + pair * B4 + kickers;
+    }
+
+    return HandCategory.HIGH_CARD * B5 + TOP5[ones];
+};
+
+// Convenience wrapper for cards in the game's own representation
+export const evaluateCards = (holeCards: Card[], communityCards: Card[]): number =>
+    evaluateScore([...encodeCards(holeCards), ...encodeCards(communityCards)]);
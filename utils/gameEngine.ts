@@ -0,0 +1,586 @@
+import {
+    GameState,
+    Player,
+    PlayerRole,
+    PlayerStatus,
+    GamePhase,
+    ShowdownResult,
+    HandRank,
+    PotResult,
+    PlayerAction,
+    LegalAction,
+    TableConfig,
+    HandEvent,
+    HandHistory,
+} from '../types.ts';
+import { createSeededDeck, evaluateHand, compareHands, buildPots, splitPot, countChips, checkChipConservation } from './pokerLogic.ts';
+import { randomSeed, deriveSeed } from './random.ts';
+import { updateOpponentModel } from './opponentModel.ts';
+
+// Pure betting engine: every function takes a GameState and returns a new one without
+// mutating its input, so hands can be driven from the UI, tests or simulations alike.
+
+export interface BlindLevels {
+    smallBlind: number;
+    bigBlind: number;
+    ante?: number;
+    bigBlindAnte?: boolean; // The big blind posts a single ante instead of every player
+}
+
+export const createInitialState = (bigBlind: number, seed: number = randomSeed()): GameState => ({
+    players: [],
+    pot: 0,
+    deck: [],
+    communityCards: [],
+    dealerIndex: 0,
+    activePlayerIndex: -1,
+    currentHighBet: 0,
+    lastRaiseSize: bigBlind,
+    lastFullBet: 0,
+    phase: GamePhase.PRE_FLOP,
+    isGameRunning: false,
+    minBet: bigBlind,
+    smallBlindIndex: 0,
+    smallBlindDead: false,
+    bigBlindIndex: 0,
+    showdownResults: [],
+    potResults: [],
+    chipTotal: 0,
+    seed,
+    handNumber: 0,
+    handSeed: seed,
+    message: 'Welcome to Gemini Poker',
+});
+
+export const createPlayers = (config: TableConfig): Player[] =>
+    config.seats.map((seat, i) => ({
+        id: i,
+        name: i === config.userSeat ? 'You' : seat.name,
+        role: i === config.userSeat ? PlayerRole.USER : PlayerRole.BOT,
+        chips: seat.stack,
+        hand: [],
+        status: PlayerStatus.ACTIVE,
+        currentBet: 0,
+        totalHandBet: 0,
+        personality: i === config.userSeat ? undefined : seat.personality,
+    }));
+
+// Index of the first seat after `from` (clockwise) whose player matches, or -1
+const nextSeat = (players: Player[], from: number, matches: (p: Player) => boolean): number => {
+    for (let i = 1; i <= players.length; i++) {
+        const idx = (from + i) % players.length;
+        if (matches(players[idx])) return idx;
+    }
+    return -1;
+};
+
+const isLive = (p: Player) => p.status === PlayerStatus.ACTIVE || p.status === PlayerStatus.ALL_IN;
+const canAct = (p: Player) => p.status === PlayerStatus.ACTIVE;
+
+// Appends events to the current hand's history
+const record = (state: GameState, ...events: HandEvent[]): HandHistory | undefined =>
+    state.history && { ...state.history, events: [...state.history.events, ...events] };
+
+// Moves chips from a player's stack into the pot, returning the new player and the amount moved
+const commitChips = (p: Player, amount: number): [Player, number] => {
+    const moved = Math.min(amount, p.chips);
+    const chips = p.chips - moved;
+    return [
+        {
+            ...p,
+            chips,
+            currentBet: p.currentBet + moved,
+            totalHandBet: p.totalHandBet + moved,
+            status: chips === 0 ? PlayerStatus.ALL_IN : p.status,
+        },
+        moved,
+    ];
+};
+
+// -------------------------------------------------------------------------
+// Hand Setup
+// -------------------------------------------------------------------------
+// Starts the next hand. Pass `dealerIndex` for the first hand of a game; afterwards the
+// button and blinds move on from the previous hand's positions.
+export const startHand = (state: GameState, blinds: BlindLevels, dealerIndex?: number): GameState => {
+    // 1. Reset statuses based on chips (and whether the player is sitting out).
+    // This is the core logic that decides if someone is BUSTED or ACTIVE.
+    const players: Player[] = state.players.map((p) => ({
+        ...p,
+        status: p.sittingOut ? PlayerStatus.SITTING_OUT : p.chips > 0 ? PlayerStatus.ACTIVE : PlayerStatus.BUSTED,
+        hand: [],
+        currentBet: 0,
+        lastAction: undefined,
+        actedAtBet: undefined,
+        totalHandBet: 0,
+    }));
+
+    // 2. CHECK GAME OVER CONDITION
+    // Game ends IF user is busted OR ALL bots are busted. A table of bots only (simulations) plays on
+    // until one player has every chip.
+    const user = players.find((p) => p.role === PlayerRole.USER);
+    const activeBots = players.filter((p) => p.role === PlayerRole.BOT && p.status === PlayerStatus.ACTIVE);
+
+    if (user?.status === PlayerStatus.BUSTED) {
+        return { ...state, players, isGameRunning: false, phase: GamePhase.GAME_OVER, message: 'You have been eliminated.' };
+    }
+
+    if (!user && activeBots.length === 1) {
+        return { ...state, players, isGameRunning: false, phase: GamePhase.GAME_OVER, message: `${activeBots[0].name} has won all the chips!` };
+    }
+
+    if (user && activeBots.length === 0) {
+        return {
+            ...state,
+            players,
+            isGameRunning: false,
+            phase: GamePhase.GAME_OVER,
+            message: "You are the Champion! You've won all the chips!",
+        };
+    }
+
+    if (players.filter((p) => p.status === PlayerStatus.ACTIVE).length < 2) {
+        return { ...state, players, isGameRunning: false, message: 'Waiting for more players...' };
+    }
+
+    // Reset deck. Every hand gets its own seed so any single hand can be dealt again.
+    const handSeed = state.pendingHandSeed ?? deriveSeed(state.seed, state.handNumber);
+    const deck = createSeededDeck(handSeed);
+
+    // Deal hole cards
+    for (const p of players) {
+        if (p.status === PlayerStatus.ACTIVE) {
+            p.hand = [deck.pop()!, deck.pop()!];
+        }
+    }
+    const dealtIn = players.filter((p) => p.status === PlayerStatus.ACTIVE);
+    const posts: HandEvent[] = [];
+
+    // Antes go straight into the pot without counting towards the round bet
+    let antes = 0;
+    if (blinds.ante && !blinds.bigBlindAnte) {
+        players.forEach((p, i) => {
+            if (p.status !== PlayerStatus.ACTIVE) return;
+            const ante = Math.min(blinds.ante!, p.chips);
+            players[i] = { ...p, chips: p.chips - ante, totalHandBet: ante, status: ante === p.chips ? PlayerStatus.ALL_IN : p.status };
+            antes += ante;
+            posts.push({ type: 'POST', playerId: p.id, kind: 'ANTE', amount: ante });
+        });
+    }
+
+    // Blinds calculation
+    const { dealer, sbIndex, sbDead, bbIndex } = assignBlinds(players, state, dealerIndex);
+
+    // Apply Blinds (a dead small blind posts nothing)
+    let sbAmount = 0;
+    let bbAmount: number;
+    if (!sbDead) [players[sbIndex], sbAmount] = commitChips(players[sbIndex], blinds.smallBlind);
+    [players[bbIndex], bbAmount] = commitChips(players[bbIndex], blinds.bigBlind);
+    if (!sbDead) posts.push({ type: 'POST', playerId: sbIndex, kind: 'SMALL_BLIND', amount: sbAmount });
+    posts.push({ type: 'POST', playerId: bbIndex, kind: 'BIG_BLIND', amount: bbAmount });
+
+    // A big-blind ante is posted after the blind itself, so a short stack covers the blind first
+    if (blinds.ante && blinds.bigBlindAnte) {
+        const bb = players[bbIndex];
+        const ante = Math.min(blinds.ante, bb.chips);
+        players[bbIndex] = { ...bb, chips: bb.chips - ante, totalHandBet: bb.totalHandBet + ante, status: bb.chips === ante ? PlayerStatus.ALL_IN : bb.status };
+        antes += ante;
+        posts.push({ type: 'POST', playerId: bbIndex, kind: 'ANTE', amount: ante });
+    }
+
+    const history: HandHistory = {
+        id: `${state.seed}-${state.handNumber + 1}`,
+        handNumber: state.handNumber + 1,
+        handSeed,
+        startedAt: Date.now(),
+        smallBlind: blinds.smallBlind,
+        bigBlind: blinds.bigBlind,
+        ante: blinds.ante ?? 0,
+        seatCount: players.length,
+        dealerIndex: dealer,
+        seats: dealtIn.map((p) => ({ playerId: p.id, name: p.name, role: p.role, stack: p.chips })),
+        events: [...posts, ...dealtIn.map((p): HandEvent => ({ type: 'DEAL', playerId: p.id, cards: p.hand }))],
+        board: [],
+    };
+
+    // First to act is after Big Blind (heads-up that is the dealer, who posted the small blind)
+    const firstActionIndex = nextSeat(players, bbIndex, canAct);
+
+    return {
+        ...state,
+        players,
+        pot: antes + sbAmount + bbAmount,
+        deck,
+        communityCards: [],
+        dealerIndex: dealer,
+        activePlayerIndex: firstActionIndex,
+        currentHighBet: blinds.bigBlind,
+        lastRaiseSize: blinds.bigBlind,
+        lastFullBet: blinds.bigBlind,
+        phase: GamePhase.PRE_FLOP,
+        isGameRunning: true,
+        minBet: blinds.bigBlind,
+        smallBlindIndex: sbIndex,
+        smallBlindDead: sbDead,
+        bigBlindIndex: bbIndex,
+        showdownResults: [],
+        potResults: [],
+        chipTotal: countChips(players),
+        handNumber: state.handNumber + 1,
+        handSeed,
+        pendingHandSeed: undefined,
+        history,
+        message: 'New Hand Started',
+    };
+};
+
+// Picks the button and blind seats for a hand.
+// - Heads-up, the dealer posts the small blind (and so acts first preflop and last postflop).
+// - Otherwise the big blind always moves to the next player still seated, and the small blind and
+//   button follow it onto last hand's big blind and small blind seats. If the small blind's seat
+//   busted, that blind is dead (not posted) and the button still moves onto the seat a hand later,
+//   even when it is empty, so nobody skips or repeats a blind or the button.
+const assignBlinds = (players: Player[], prev: GameState, dealerIndex?: number) => {
+    const isSeated = (p: Player) => p.status !== PlayerStatus.BUSTED && p.status !== PlayerStatus.SITTING_OUT;
+    const seatedCount = players.filter(isSeated).length;
+
+    if (dealerIndex !== undefined) {
+        const dealer = isSeated(players[dealerIndex]) ? dealerIndex : nextSeat(players, dealerIndex, isSeated);
+        if (seatedCount === 2) return { dealer, sbIndex: dealer, sbDead: false, bbIndex: nextSeat(players, dealer, isSeated) };
+        const sbIndex = nextSeat(players, dealer, isSeated);
+        return { dealer, sbIndex, sbDead: false, bbIndex: nextSeat(players, sbIndex, isSeated) };
+    }
+
+    const bbIndex = nextSeat(players, prev.bigBlindIndex, isSeated);
+    if (seatedCount === 2) {
+        const dealer = nextSeat(players, bbIndex, isSeated);
+        return { dealer, sbIndex: dealer, sbDead: false, bbIndex };
+    }
+    const sbIndex = prev.bigBlindIndex;
+    return { dealer: prev.smallBlindIndex, sbIndex, sbDead: !isSeated(players[sbIndex]), bbIndex };
+};
+
+// -------------------------------------------------------------------------
+// Actions
+// -------------------------------------------------------------------------
+// Smallest total a BET or RAISE may make the player's round bet: the current bet plus the last full bet or raise
+export const minRaiseTotal = (state: GameState): number =>
+    state.currentHighBet > 0 ? state.currentHighBet + state.lastRaiseSize : state.minBet;
+
+// A player who already acted may only raise again if a full bet or raise has been made since.
+// An all-in for less than a full raise does not reopen the betting for them.
+const canReopen = (state: GameState, p: Player) => p.actedAtBet === undefined || state.lastFullBet > p.actedAtBet;
+
+// Actions the player to act may take, with round-bet bounds for BET and RAISE
+export const getLegalActions = (state: GameState): LegalAction[] => {
+    const p = state.players[state.activePlayerIndex];
+    if (!p || !canAct(p) || !state.isGameRunning) return [];
+
+    const callAmount = state.currentHighBet - p.currentBet;
+    const maxTotal = p.chips + p.currentBet;
+    const mayRaise = canReopen(state, p);
+    const actions: LegalAction[] = [{ type: 'FOLD' }];
+
+    if (callAmount <= 0) {
+        actions.push({ type: 'CHECK' });
+    } else {
+        const amount = Math.min(callAmount, p.chips);
+        actions.push({ type: 'CALL', minAmount: amount, maxAmount: amount });
+    }
+
+    const minTotal = minRaiseTotal(state);
+    if (mayRaise && maxTotal > minTotal) {
+        actions.push({ type: state.currentHighBet === 0 ? 'BET' : 'RAISE', minAmount: minTotal, maxAmount: maxTotal });
+    }
+    if (p.chips > 0 && (mayRaise || p.chips <= callAmount)) {
+        actions.push({ type: 'ALL_IN', minAmount: p.chips, maxAmount: p.chips });
+    }
+    return actions;
+};
+
+// Turns an action that is not legal for the player into the nearest legal one: checking into a bet folds,
+// calling nothing checks, and BET/RAISE/ALL_IN sizes that break no-limit rules are corrected. Returns the
+// action to apply and, when it had to be changed, a message explaining why.
+export const validateAction = (state: GameState, action: PlayerAction): { action: PlayerAction; correction?: string } => {
+    const p = state.players[action.playerIndex];
+    const legal = getLegalActions(state).map((a) => a.type);
+    if (action.type === 'CHECK' && !legal.includes('CHECK')) {
+        return {
+            action: { type: 'FOLD', playerIndex: action.playerIndex },
+            correction: `${p.name} cannot check facing a bet of ${state.currentHighBet}, so the check was treated as a fold.`,
+        };
+    }
+    if (action.type === 'CALL' && !legal.includes('CALL')) {
+        return {
+            action: { type: 'CHECK', playerIndex: action.playerIndex },
+            correction: `There is nothing for ${p.name} to call, so the call was treated as a check.`,
+        };
+    }
+    if (action.type !== 'BET' && action.type !== 'RAISE' && action.type !== 'ALL_IN') return { action };
+
+    const maxTotal = p.chips + p.currentBet;
+    if (!canReopen(state, p) && maxTotal > state.currentHighBet) {
+        return {
+            action: { type: 'CALL', playerIndex: action.playerIndex },
+            correction: `Betting was not reopened by a short all-in, so ${p.name} can only call or fold.`,
+        };
+    }
+    if (action.type === 'ALL_IN') return { action };
+
+    const type = state.currentHighBet === 0 ? 'BET' : 'RAISE';
+    const minTotal = minRaiseTotal(state);
+    const requested = action.amount ?? minTotal;
+    if (requested >= maxTotal) {
+        return { action: { type: 'ALL_IN', playerIndex: action.playerIndex } };
+    }
+    if (requested < minTotal) {
+        const corrected = Math.min(minTotal, maxTotal);
+        return {
+            action: corrected === maxTotal ? { type: 'ALL_IN', playerIndex: action.playerIndex } : { type, playerIndex: action.playerIndex, amount: corrected },
+            correction: `Minimum ${type.toLowerCase()} is to ${minTotal}; ${requested} was corrected to ${corrected}.`,
+        };
+    }
+    return { action: { type, playerIndex: action.playerIndex, amount: requested } };
+};
+
+// Applies one action for the player to act without moving the turn on
+export const performAction = (state: GameState, requested: PlayerAction): GameState => {
+    if (requested.playerIndex !== state.activePlayerIndex || !state.isGameRunning) return state;
+    if (!canAct(state.players[requested.playerIndex])) return state;
+
+    const { action, correction } = validateAction(state, requested);
+    const players = [...state.players];
+    let p = { ...players[action.playerIndex] };
+
+    let pot = state.pot;
+    let highBet = state.currentHighBet;
+    let lastRaiseSize = state.lastRaiseSize;
+    let lastFullBet = state.lastFullBet;
+    let moved = 0;
+    let msg = `${p.name} `;
+
+    if (action.type === 'FOLD') {
+        p.status = PlayerStatus.FOLDED;
+        p.lastAction = 'Fold';
+        msg += 'folded.';
+    } else if (action.type === 'CHECK') {
+        p.lastAction = 'Check';
+        msg += 'checked.';
+    } else if (action.type === 'CALL') {
+        [p, moved] = commitChips(p, state.currentHighBet - p.currentBet);
+        p.lastAction = 'Call';
+        msg += 'called.';
+    } else {
+        const raiseTo = action.type === 'ALL_IN' ? p.chips + p.currentBet : action.amount!;
+        [p, moved] = commitChips(p, raiseTo - p.currentBet);
+        if (p.currentBet > highBet) {
+            // Only a full bet or raise changes the minimum raise and reopens the betting
+            const raiseSize = p.currentBet - highBet;
+            if (raiseSize >= lastRaiseSize) {
+                lastRaiseSize = raiseSize;
+                lastFullBet = p.currentBet;
+            }
+            highBet = p.currentBet;
+        }
+        if (p.status === PlayerStatus.ALL_IN) {
+            p.lastAction = 'All In';
+            msg += 'went All In!';
+        } else {
+            p.lastAction = action.type === 'BET' ? `Bet ${raiseTo}` : `Raise to ${raiseTo}`;
+            msg += action.type === 'BET' ? `bet ${raiseTo}.` : `raised to ${raiseTo}.`;
+        }
+    }
+
+    p.actedAtBet = highBet;
+    pot += moved;
+    players[action.playerIndex] = p;
+    if (correction) msg = `${correction} ${msg}`;
+    const history = record(state, {
+        type: 'ACTION',
+        playerId: p.id,
+        action: action.type,
+        amount: moved,
+        total: p.currentBet,
+        isAllIn: p.status === PlayerStatus.ALL_IN,
+    });
+    return { ...state, players, pot, currentHighBet: highBet, lastRaiseSize, lastFullBet, history, message: msg };
+};
+
+// Passes the turn to the next player, or closes the betting round
+export const advanceTurn = (state: GameState): GameState => {
+    const nonFolded = state.players.filter(isLive);
+
+    if (nonFolded.length === 1) {
+        return resolveHand(state);
+    }
+
+    const activePlayers = state.players.filter(canAct);
+
+    // If everyone who can act has matched the high bet, go to next phase
+    const allMatched = activePlayers.every((p) => p.currentBet === state.currentHighBet && p.lastAction !== undefined);
+
+    if (activePlayers.length === 0 || allMatched) {
+        return advancePhase(state);
+    }
+
+    // Find next player
+    const nextIdx = nextSeat(state.players, state.activePlayerIndex, canAct);
+    if (nextIdx === -1) return advancePhase(state);
+    return { ...state, activePlayerIndex: nextIdx };
+};
+
+export const applyAction = (state: GameState, action: PlayerAction): GameState => {
+    const next = performAction(state, action);
+    return next === state ? state : advanceTurn(next);
+};
+
+// -------------------------------------------------------------------------
+// Streets
+// -------------------------------------------------------------------------
+
+// True while the board is being dealt out with nobody left able to bet
+export const isRunningOut = (state: GameState): boolean =>
+    state.isGameRunning && state.activePlayerIndex === -1 && state.phase !== GamePhase.SHOWDOWN && state.phase !== GamePhase.GAME_OVER;
+
+// Deals the next street (or goes to showdown after the river)
+export const advancePhase = (state: GameState): GameState => {
+    const players = state.players.map((p) => ({ ...p, currentBet: 0, lastAction: undefined, actedAtBet: undefined }));
+    let nextPhaseEnum: GamePhase = GamePhase.PRE_FLOP;
+    const communityCards = [...state.communityCards];
+    const deck = [...state.deck];
+
+    if (state.phase === GamePhase.PRE_FLOP) {
+        nextPhaseEnum = GamePhase.FLOP;
+        communityCards.push(deck.pop()!, deck.pop()!, deck.pop()!);
+    } else if (state.phase === GamePhase.FLOP) {
+        nextPhaseEnum = GamePhase.TURN;
+        communityCards.push(deck.pop()!);
+    } else if (state.phase === GamePhase.TURN) {
+        nextPhaseEnum = GamePhase.RIVER;
+        communityCards.push(deck.pop()!);
+    } else if (state.phase === GamePhase.RIVER) {
+        return resolveHand({ ...state, players });
+    }
+
+    // Auto-advance if no one can bet (everyone all-in or folded)
+    const canStillBet = players.filter(canAct).length;
+    const firstIdx = canStillBet < 2 ? -1 : nextSeat(players, state.dealerIndex, canAct);
+
+    return {
+        ...state,
+        players,
+        currentHighBet: 0,
+        lastRaiseSize: state.minBet,
+        lastFullBet: 0,
+        activePlayerIndex: firstIdx,
+        phase: nextPhaseEnum,
+        communityCards,
+        deck,
+        history: state.history && {
+            ...record(state, { type: 'BOARD', phase: nextPhaseEnum, cards: communityCards.slice(state.communityCards.length) })!,
+            board: communityCards,
+        },
+        message: `Dealing ${nextPhaseEnum}...`,
+    };
+};
+
+// Deals every remaining street when no further betting is possible
+export const runOut = (state: GameState): GameState => {
+    let next = state;
+    while (isRunningOut(next)) next = advancePhase(next);
+    return next;
+};
+
+// -------------------------------------------------------------------------
+// Showdown
+// -------------------------------------------------------------------------
+export const resolveHand = (state: GameState): GameState => {
+    const currentPlayers = state.players;
+    const activeAndAllIn = currentPlayers.filter(isLive);
+    const isUncontested = activeAndAllIn.length === 1;
+    const ranks = new Map<number, HandRank>();
+    if (!isUncontested) {
+        activeAndAllIn.forEach((p) => ranks.set(p.id, evaluateHand(p.hand, state.communityCards)));
+    }
+
+    // Award each pot to the best hand(s) among the players eligible for it
+    const potResults: PotResult[] = buildPots(currentPlayers).map((pot, idx) => {
+        let winnerIds = pot.eligiblePlayerIds;
+        if (!isUncontested) {
+            const best = winnerIds.reduce((a, b) => (compareHands(ranks.get(b)!, ranks.get(a)!) > 0 ? b : a));
+            winnerIds = winnerIds.filter((id) => compareHands(ranks.get(id)!, ranks.get(best)!) === 0);
+        }
+        return {
+            ...pot,
+            name: idx === 0 ? 'Main Pot' : `Side Pot ${idx}`,
+            awards: splitPot(pot.amount, winnerIds, state.dealerIndex, currentPlayers.length),
+        };
+    });
+
+    const results: ShowdownResult[] = activeAndAllIn.map((p) => {
+        const potShares = potResults.flatMap((pot) =>
+            pot.awards.filter((a) => a.playerId === p.id).map((a) => ({ potName: pot.name, amount: a.amount }))
+        );
+        const amount = potShares.reduce((sum, share) => sum + share.amount, 0);
+        const rank = ranks.get(p.id);
+        return {
+            playerId: p.id,
+            name: p.name,
+            role: p.role,
+            handDescription: rank ? rank.name : 'Last Player Standing',
+            holeCards: p.hand,
+            winningCards: rank ? rank.cards : [],
+            amount,
+            potShares,
+            isWinner: amount > 0,
+            score: rank ? rank.score : 9999,
+        };
+    });
+    results.sort((a, b) => b.amount - a.amount || b.score - a.score);
+
+    const nextPlayers = currentPlayers.map((p) => {
+        const res = results.find((r) => r.playerId === p.id);
+        if (res && res.isWinner) {
+            return { ...p, chips: p.chips + res.amount };
+        }
+        return p;
+    });
+
+    const violation = checkChipConservation(nextPlayers, state.chipTotal);
+    if (violation) console.error(violation, { players: nextPlayers, potResults });
+
+    // History: hands shown, the uncalled part of the biggest bet returned, then what each pot paid
+    const events: HandEvent[] = [];
+    if (!isUncontested) {
+        activeAndAllIn.forEach((p) =>
+            events.push({ type: 'SHOW', playerId: p.id, cards: p.hand, description: ranks.get(p.id)!.name })
+        );
+    }
+    const highest = currentPlayers.reduce((a, b) => (b.totalHandBet > a.totalHandBet ? b : a));
+    // A folded player's unmatched chips stay in the pot; only a live player gets them back
+    const uncalled = isLive(highest)
+        ? highest.totalHandBet - Math.max(0, ...currentPlayers.filter((p) => p !== highest).map((p) => p.totalHandBet))
+        : 0;
+    if (uncalled > 0) events.push({ type: 'UNCALLED', playerId: highest.id, amount: uncalled });
+    potResults.forEach((pot, idx) => {
+        const isLast = idx === potResults.length - 1;
+        pot.awards.forEach((a) => {
+            const amount = isLast && a.playerId === highest.id ? a.amount - uncalled : a.amount;
+            if (amount > 0) events.push({ type: 'AWARD', playerId: a.playerId, potName: pot.name, amount });
+        });
+    });
+
+    const history = record(state, ...events);
+    const mainPotWinners = potResults[0].awards.map((a) => currentPlayers[a.playerId].name);
+    return {
+        ...state,
+        players: nextPlayers,
+        history,
+        opponentModel: history ? updateOpponentModel(state.opponentModel ?? {}, history) : state.opponentModel,
+        phase: GamePhase.SHOWDOWN,
+        activePlayerIndex: -1,
+        showdownResults: results,
+        potResults,
+        message: violation ?? (mainPotWinners.length > 1 ? 'Split Pot!' : `${mainPotWinners[0]} Wins!`),
+    };
+};
@@ -0,0 +1,262 @@
+import { Card, Suit, GamePhase, HandHistory, HandEvent, PlayerRole } from '../types.ts';
+import { createBetTracker } from './betTracker.ts';
+
+export const HISTORY_FORMAT = 'gemini-poker-hand-history';
+export const HISTORY_VERSION = 1;
+
+// Shape of an exported session file
+export interface HandHistoryFile {
+    format: typeof HISTORY_FORMAT;
+    version: number;
+    exportedAt: string;
+    hands: HandHistory[];
+}
+
+const SUIT_LETTERS: Record<Suit, string> = {
+    [Suit.HEARTS]: 'h',
+    [Suit.DIAMONDS]: 'd',
+    [Suit.CLUBS]: 'c',
+    [Suit.SPADES]: 's',
+};
+
+const RANK_LETTERS: Record<number, string> = { 10: 'T', 11: 'J', 12: 'Q', 13: 'K', 14: 'A' };
+
+// Cards in the usual hand-history notation, e.g. "Ah Td"
+export const formatCard = (card: Card) => `${RANK_LETTERS[card.rank] ?? card.rank}${SUIT_LETTERS[card.suit]}`;
+const formatCards = (cards: Card[]) => `[${cards.map(formatCard).join(' ')}]`;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const formatDate = (ms: number) => {
+    const d = new Date(ms);
+    return `${d.getFullYear()}/${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+// "Main Pot" / "Side Pot 1" become "main pot" / "side pot-1"; a single pot is just "pot"
+const formatPotName = (name: string, potCount: number) => (potCount === 1 ? 'pot' : name.toLowerCase().replace(/ (\d+)$/, '-$1'));
+
+const STREETS: Partial<Record<GamePhase, string>> = {
+    [GamePhase.FLOP]: 'FLOP',
+    [GamePhase.TURN]: 'TURN',
+    [GamePhase.RIVER]: 'RIVER',
+};
+
+// Formats one hand as PokerStars-style hand history text
+export const formatHandHistory = (hand: HandHistory): string => {
+    const nameOf = (id: number) => hand.seats.find((s) => s.playerId === id)?.name ?? `Seat ${id + 1}`;
+    const ante = hand.ante > 0 ? ` - Ante $${hand.ante}` : '';
+    // The hand seed doubles as the hand number: it is unique per deal and lets the hand be dealt again
+    const lines = [
+        `PokerStars Hand #${hand.handSeed}: Hold'em No Limit ($${hand.smallBlind}/$${hand.bigBlind})${ante} - ${formatDate(hand.startedAt)}`,
+        `Table 'Gemini Poker' ${hand.seatCount}-max Seat #${hand.dealerIndex + 1} is the button`,
+        ...hand.seats.map((s) => `Seat ${s.playerId + 1}: ${s.name} ($${s.stack} in chips)`),
+    ];
+
+    const potCount = new Set(hand.events.flatMap((e) => (e.type === 'AWARD' ? [e.potName] : []))).size;
+    const folded = new Map<number, string>(); // Player id -> street they folded on
+    const shown = new Map<number, Extract<HandEvent, { type: 'SHOW' }>>();
+    const won = new Map<number, number>();
+    let board: Card[] = [];
+    let street = 'Pre-Flop';
+    const bets = createBetTracker(hand.bigBlind);
+    let dealtHoleCards = false;
+    let showdown = false;
+    // PokerStars returns an uncalled bet before the showdown; the engine records it after the hands shown
+    const uncalledLines = hand.events.flatMap((e) => (e.type === 'UNCALLED' ? [`Uncalled bet ($${e.amount}) returned to ${nameOf(e.playerId)}`] : []));
+    let returnedUncalled = false;
+    const returnUncalled = () => {
+        if (!returnedUncalled) lines.push(...uncalledLines);
+        returnedUncalled = true;
+    };
+
+    for (const e of hand.events) {
+        const bet = bets.read(e);
+        switch (e.type) {
+            case 'POST': {
+                const what = e.kind === 'ANTE' ? 'the ante' : e.kind === 'SMALL_BLIND' ? 'small blind' : 'big blind';
+                lines.push(`${nameOf(e.playerId)}: posts ${what} $${e.amount}`);
+                break;
+            }
+            case 'DEAL': {
+                if (!dealtHoleCards) lines.push('*** HOLE CARDS ***');
+                dealtHoleCards = true;
+                const seat = hand.seats.find((s) => s.playerId === e.playerId);
+                if (seat?.role === PlayerRole.USER) lines.push(`Dealt to ${seat.name} ${formatCards(e.cards)}`);
+                break;
+            }
+            case 'ACTION': {
+                const name = nameOf(e.playerId);
+                const { kind, facing } = bet!;
+                const allIn = e.isAllIn ? ' and is all-in' : '';
+                if (kind === 'FOLD') {
+                    folded.set(e.playerId, street);
+                    lines.push(`${name}: folds`);
+                } else if (kind === 'CHECK') {
+                    lines.push(`${name}: checks`);
+                } else if (kind === 'CALL') {
+                    lines.push(`${name}: calls $${e.amount}${allIn}`);
+                } else if (kind === 'BET') {
+                    lines.push(`${name}: bets $${e.amount}${allIn}`);
+                } else {
+                    lines.push(`${name}: raises $${e.total - facing} to $${e.total}${allIn}`);
+                }
+                break;
+            }
+            case 'BOARD': {
+                const label = STREETS[e.phase] ?? e.phase.toUpperCase();
+                lines.push(`*** ${label} *** ${board.length > 0 ? `${formatCards(board)} ` : ''}${formatCards(e.cards)}`);
+                board = [...board, ...e.cards];
+                street = e.phase;
+                break;
+            }
+            case 'SHOW':
+                if (!showdown) {
+                    returnUncalled();
+                    lines.push('*** SHOW DOWN ***');
+                }
+                showdown = true;
+                shown.set(e.playerId, e);
+                lines.push(`${nameOf(e.playerId)}: shows ${formatCards(e.cards)} (${e.description})`);
+                break;
+            case 'UNCALLED':
+                returnUncalled();
+                break;
+            case 'AWARD':
+                won.set(e.playerId, (won.get(e.playerId) ?? 0) + e.amount);
+                lines.push(`${nameOf(e.playerId)} collected $${e.amount} from ${formatPotName(e.potName, potCount)}`);
+                break;
+        }
+    }
+
+    const total = [...won.values()].reduce((sum, n) => sum + n, 0);
+    lines.push('*** SUMMARY ***', `Total pot $${total} | Rake $0`);
+    if (hand.board.length > 0) lines.push(`Board ${formatCards(hand.board)}`);
+    for (const s of hand.seats) {
+        const tag = s.playerId === hand.dealerIndex ? ' (button)' : '';
+        const show = shown.get(s.playerId);
+        const amount = won.get(s.playerId);
+        let outcome: string;
+        if (folded.has(s.playerId)) {
+            const at = folded.get(s.playerId);
+            outcome = at === 'Pre-Flop' ? 'folded before Flop' : `folded on the ${at}`;
+        } else if (show) {
+            outcome = `showed ${formatCards(show.cards)} and ${amount ? `won ($${amount})` : 'lost'} with ${show.description}`;
+        } else {
+            outcome = amount ? `collected ($${amount})` : 'mucked';
+        }
+        lines.push(`Seat ${s.playerId + 1}: ${s.name}${tag} ${outcome}`);
+    }
+    return lines.join('\n');
+};
+
+// Formats a whole session, hands separated by blank lines as hand-history files usually are
+export const formatSessionHistory = (hands: HandHistory[]) => hands.map(formatHandHistory).join('\n\n\n') + '\n';
+
+export const exportSessionJson = (hands: HandHistory[]): string => {
+    const file: HandHistoryFile = {
+        format: HISTORY_FORMAT,
+        version: HISTORY_VERSION,
+        exportedAt: new Date().toISOString(),
+        hands,
+    };
+    return JSON.stringify(file, null, 2);
+};
+
+const SUITS = new Set<unknown>(Object.values(Suit));
+const PHASES = new Set<unknown>(Object.values(GamePhase));
+const POST_KINDS = new Set<unknown>(['ANTE', 'SMALL_BLIND', 'BIG_BLIND']);
+const ACTIONS = new Set<unknown>(['FOLD', 'CHECK', 'CALL', 'BET', 'RAISE', 'ALL_IN']);
+
+const isAmount = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n >= 0;
+const isCard = (c: unknown) => {
+    const card = c as Partial<Card> | null;
+    return !!card && Number.isInteger(card.rank) && card.rank! >= 2 && card.rank! <= 14 && SUITS.has(card.suit) && typeof card.display === 'string';
+};
+const isCardList = (cards: unknown) => Array.isArray(cards) && cards.every(isCard);
+
+// What is wrong with one event's own fields, if anything
+const eventProblem = (e: HandEvent): string | undefined => {
+    switch (e.type) {
+        case 'POST':
+            if (!POST_KINDS.has(e.kind)) return `posts an unknown kind of bet "${e.kind}"`;
+            return isAmount(e.amount) ? undefined : `has an invalid amount ${e.amount}`;
+        case 'DEAL':
+            return isCardList(e.cards) ? undefined : 'has invalid cards';
+        case 'ACTION':
+            if (!ACTIONS.has(e.action)) return `has an unknown action "${e.action}"`;
+            return isAmount(e.amount) && isAmount(e.total) ? undefined : `has an invalid amount ${e.amount} or total ${e.total}`;
+        case 'BOARD':
+            if (!PHASES.has(e.phase)) return `deals an unknown street "${e.phase}"`;
+            return isCardList(e.cards) ? undefined : 'has invalid cards';
+        case 'SHOW':
+            return isCardList(e.cards) && typeof e.description === 'string' ? undefined : 'has invalid cards or no hand description';
+        case 'UNCALLED':
+            return isAmount(e.amount) ? undefined : `has an invalid amount ${e.amount}`;
+        case 'AWARD':
+            return isAmount(e.amount) && typeof e.potName === 'string' ? undefined : `has an invalid amount ${e.amount} or no pot name`;
+        default:
+            return `has an unknown type "${(e as { type: unknown }).type}"`;
+    }
+};
+
+// Checks everything the replayer and the exporters read: the blinds, seats and button, every card, every amount,
+// and that every event points at a player dealt into the hand. A damaged or hand-edited file is rejected with
+// a message instead of breaking the replayer.
+const checkHand = (h: HandHistory) => {
+    const label = `Hand #${h.handNumber ?? '?'}`;
+    const isSeat = (id: unknown) => Number.isInteger(id) && (id as number) >= 0 && (id as number) < h.seatCount;
+    if (!Number.isInteger(h.seatCount) || h.seatCount < 2) throw new Error(`${label} has an invalid seat count ${h.seatCount}.`);
+    if (!isAmount(h.smallBlind) || !isAmount(h.bigBlind) || !isAmount(h.ante)) {
+        throw new Error(`${label} has invalid blinds ($${h.smallBlind}/$${h.bigBlind}, ante $${h.ante}).`);
+    }
+    if (!isSeat(h.dealerIndex)) throw new Error(`${label} puts the button on seat ${h.dealerIndex}, outside the table's ${h.seatCount} seats.`);
+    if (h.seats.length === 0) throw new Error(`${label} has no players dealt in.`);
+    if (!isCardList(h.board)) throw new Error(`${label} has an invalid board.`);
+
+    const dealt = new Set<number>();
+    for (const s of h.seats) {
+        if (!s || !isSeat(s.playerId)) throw new Error(`${label} lists a player in seat ${s?.playerId}, outside the table's ${h.seatCount} seats.`);
+        if (dealt.has(s.playerId)) throw new Error(`${label} lists seat ${s.playerId} twice.`);
+        if (typeof s.name !== 'string' || !isAmount(s.stack)) throw new Error(`${label} lists seat ${s.playerId} without a name or a valid stack.`);
+        dealt.add(s.playerId);
+    }
+    h.events.forEach((e, i) => {
+        if (!e || typeof e.type !== 'string') throw new Error(`${label}: event ${i + 1} is not a valid event.`);
+        const problem = eventProblem(e);
+        if (problem) throw new Error(`${label}: event ${i + 1} (${e.type}) ${problem}.`);
+        if (e.type === 'BOARD') return;
+        if (!isSeat(e.playerId) || !dealt.has(e.playerId)) {
+            throw new Error(`${label}: event ${i + 1} (${e.type}) refers to seat ${e.playerId}, which was not dealt into the hand.`);
+        }
+    });
+};
+
+// Reads hands back from an exported session file. A bare hand or an array of hands is accepted too.
+export const parseHandHistoryFile = (text: string): HandHistory[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Not a valid JSON file.');
+    }
+    const file = data as Partial<HandHistoryFile>;
+    const hands = Array.isArray(data) ? data : file.format === HISTORY_FORMAT ? file.hands : [data];
+    if (!Array.isArray(hands) || hands.length === 0) throw new Error('No hands found in the file.');
+    if (file.version !== undefined && file.version > HISTORY_VERSION) throw new Error(`Unsupported hand history version ${file.version}.`);
+    for (const h of hands as HandHistory[]) {
+        if (!h || !Array.isArray(h.seats) || !Array.isArray(h.events) || typeof h.seatCount !== 'number') {
+            throw new Error('The file does not contain Gemini Poker hand histories.');
+        }
+        checkHand(h);
+    }
+    return hands;
+};
+
+// Saves text as a file through a temporary download link
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
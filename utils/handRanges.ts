@@ -0,0 +1,82 @@
+import { Card } from '../types.ts';
+
+// Starting hands in the usual chart notation: "AA" for pairs, "AKs" suited, "AKo" offsuit.
+export type HandRange = Set<string>;
+
+const RANK_CHARS = '23456789TJQKA';
+
+const rankChar = (rank: number) => RANK_CHARS[rank - 2];
+const rankOf = (char: string) => RANK_CHARS.indexOf(char.toUpperCase()) + 2;
+
+// Chart code of two hole cards, high card first: "AKs", "T9o", "77"
+export const handCode = ([a, b]: Card[]): string => {
+    const [high, low] = a.rank >= b.rank ? [a, b] : [b, a];
+    if (high.rank === low.rank) return `${rankChar(high.rank)}${rankChar(low.rank)}`;
+    return `${rankChar(high.rank)}${rankChar(low.rank)}${high.suit === low.suit ? 's' : 'o'}`;
+};
+
+const code = (high: number, low: number, suffix: string) => `${rankChar(high)}${rankChar(low)}${high === low ? '' : suffix}`;
+
+// Expands one range term into hand codes. Supported forms: "77", "77+", "TT-77", "AKs", "AK" (both),
+// "ATs+" (kicker up to one below the high card) and "A5s-A2s".
+const expandTerm = (term: string): string[] => {
+    const match = /^([2-9TJQKA])([2-9TJQKA])([so]?)(\+|-([2-9TJQKA])([2-9TJQKA])[so]?)?$/i.exec(term.trim());
+    if (!match) throw new Error(`Invalid range term "${term}"`);
+    const [, h, l, suit, modifier, toHigh, toLow] = match;
+    const high = rankOf(h);
+    const low = rankOf(l);
+    const suffixes = high === low ? [''] : suit ? [suit.toLowerCase()] : ['s', 'o'];
+    const hands: string[] = [];
+
+    if (high === low) {
+        // Pairs: "77+" up to aces, "TT-77" between the two
+        const top = modifier === '+' ? 14 : toHigh ? Math.max(high, rankOf(toHigh)) : high;
+        const bottom = toHigh ? Math.min(high, rankOf(toHigh)) : high;
+        for (let r = bottom; r <= top; r++) hands.push(code(r, r, ''));
+        return hands;
+    }
+
+    // Unpaired: the kicker moves, the high card stays
+    const last = modifier === '+' ? high - 1 : toLow ? rankOf(toLow) : low;
+    for (let k = Math.min(low, last); k <= Math.max(low, last); k++) {
+        suffixes.forEach((suffix) => hands.push(code(high, k, suffix)));
+    }
+    return hands;
+};
+
+// Parses a comma-separated range such as "77+,ATs+,KQo,A5s-A2s"
+export const parseRange = (text: string): HandRange => new Set(text.split(',').filter((t) => t.trim()).flatMap(expandTerm));
+
+export const inRange = (range: HandRange, hand: Card[]): boolean => hand.length === 2 && range.has(handCode(hand));
+
+// Chen formula score for a starting hand: roughly -1 (72o) to 20 (AA)
+const chenScore = (high: number, low: number, suited: boolean): number => {
+    const points = (rank: number) => (rank === 14 ? 10 : rank === 13 ? 8 : rank === 12 ? 7 : rank === 11 ? 6 : rank / 2);
+    if (high === low) return Math.ceil(Math.max(5, points(high) * 2));
+
+    let score = points(high) + (suited ? 2 : 0);
+    const gap = high - low - 1;
+    score -= gap === 0 ? 0 : gap === 1 ? 1 : gap === 2 ? 2 : gap === 3 ? 4 : 5;
+    if (gap <= 1 && high < 12) score += 1;
+    return Math.ceil(score);
+};
+
+// Share (%) of all 1326 starting combos that score at least as well as each hand code, by Chen score
+const PERCENTILES: Map<string, number> = (() => {
+    const hands: { code: string; combos: number; score: number }[] = [];
+    for (let high = 2; high <= 14; high++) {
+        for (let low = 2; low <= high; low++) {
+            if (high === low) {
+                hands.push({ code: code(high, low, ''), combos: 6, score: chenScore(high, low, false) });
+                continue;
+            }
+            hands.push({ code: code(high, low, 's'), combos: 4, score: chenScore(high, low, true) });
+            hands.push({ code: code(high, low, 'o'), combos: 12, score: chenScore(high, low, false) });
+        }
+    }
+    const combosAtLeast = (score: number) => hands.filter((h) => h.score >= score).reduce((sum, h) => sum + h.combos, 0);
+    return new Map(hands.map((h) => [h.code, (combosAtLeast(h.score) / 1326) * 100]));
+})();
+
+// How strong a starting hand is as the top % of hands it falls in: AA is about 0.5, 72o is 100
+export const handPercentile = (hand: Card[]): number => (hand.length === 2 ? PERCENTILES.get(handCode(hand)) ?? 100 : 100);
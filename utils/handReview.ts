@@ -0,0 +1,183 @@
+import { ActionType, Card, GamePhase, HandEvent, HandHistory, PlayerRole, PlayerStatus } from '../types.ts';
+import { calculateEquity } from './equity.ts';
+import { createDeck } from './pokerLogic.ts';
+import { handPercentile } from './handRanges.ts';
+import { buildReplayFrames } from './replay.ts';
+import { createBetTracker } from './betTracker.ts';
+import { RandomSource } from './random.ts';
+
+// How a decision holds up on the numbers. BLUFF means the chips only come back if opponents fold often enough.
+export type ReviewVerdict = 'GOOD' | 'CLOSE' | 'MISTAKE' | 'BLUFF';
+
+export interface OpponentRange {
+    name: string;
+    top: number; // Assumed to hold one of the best `top`% of starting hands
+}
+
+export interface DecisionReview {
+    phase: GamePhase;
+    board: Card[];
+    action: ActionType;
+    amount: number; // Chips put in by the action
+    total: number; // Round bet after the action
+    pot: number; // Before the action
+    toCall: number;
+    potOdds: number | null; // % of the final pot the call costs; null when there was nothing to call
+    equity: number; // % of the pot won on average against the opponents' ranges
+    requiredEquity: number; // Break-even equity for the chips this action puts in
+    ev: number; // Average chips won or lost against folding, if called and checked down from here
+    verdict: ReviewVerdict;
+    note: string;
+    opponents: OpponentRange[];
+}
+
+const SAMPLES = 1000;
+const CLOSE_MARGIN = 3; // Equity points either side of break-even that count as a close decision
+const OPEN_RANGE = 20;
+const RERAISE_RANGE = 7;
+const CALL_RANGE = 45;
+const POSTFLOP_AGGRESSION = 0.6; // Betting or raising after the flop narrows the range this much
+const MIN_RANGE = 3;
+
+const cardKey = (c: Card) => `${c.rank}${c.suit}`;
+
+// Narrows each opponent's range from what they did before the decision: a preflop raise, re-raise or call,
+// and any bet or raise after the flop. Players who only posted or checked may hold anything.
+const estimateRange = (events: HandEvent[], bigBlind: number, playerId: number): number => {
+    let top = 100;
+    let raises = 0;
+    let preflop = true;
+    const bets = createBetTracker(bigBlind);
+    for (const e of events) {
+        const bet = bets.read(e);
+        if (e.type === 'BOARD') preflop = false;
+        if (e.type !== 'ACTION' || !bet) continue;
+        const isRaise = bet.kind === 'BET' || bet.kind === 'RAISE';
+        if (e.playerId === playerId) {
+            if (preflop && isRaise) top = Math.min(top, raises === 0 ? OPEN_RANGE : RERAISE_RANGE);
+            else if (preflop && e.action === 'CALL') top = Math.min(top, CALL_RANGE);
+            else if (!preflop && isRaise) top = Math.max(MIN_RANGE, top * POSTFLOP_AGGRESSION);
+        }
+        if (isRaise && preflop) raises++;
+    }
+    return top;
+};
+
+// Deals a hand from `deck` inside the top `top`% of starting hands, giving up after a few tries
+const sampleHand = (deck: Card[], top: number, random: RandomSource): Card[] => {
+    let hand: Card[] = [];
+    for (let attempt = 0; attempt < 50; attempt++) {
+        const i = Math.floor(random() * deck.length);
+        let j = Math.floor(random() * (deck.length - 1));
+        if (j >= i) j++;
+        hand = [deck[i], deck[j]];
+        if (handPercentile(hand) <= top) break;
+    }
+    return hand;
+};
+
+// Hero's share of the pot against one hand per opponent drawn from their range, averaged over many deals
+const equityAgainstRanges = (hero: Card[], board: Card[], ranges: number[], random: RandomSource): number => {
+    const known = new Set([...hero, ...board].map(cardKey));
+    const stub = createDeck().filter((c) => !known.has(cardKey(c)));
+    let total = 0;
+    for (let n = 0; n < SAMPLES; n++) {
+        let deck = stub;
+        const hands = ranges.map((top) => {
+            const hand = sampleHand(deck, top, random);
+            deck = deck.filter((c) => c !== hand[0] && c !== hand[1]);
+            return hand;
+        });
+        total += calculateEquity([hero, ...hands], board, [], { iterations: 1, exactLimit: 1, random }).players[0].equity;
+    }
+    return total / SAMPLES;
+};
+
+const grade = (equity: number, required: number): ReviewVerdict =>
+    equity >= required + CLOSE_MARGIN ? 'GOOD' : equity > required - CLOSE_MARGIN ? 'CLOSE' : 'MISTAKE';
+
+const pct = (n: number) => `${n.toFixed(0)}%`;
+
+// Scores one decision from pot odds and equity. Later streets are ignored, so calls with draws look a little
+// worse than they are and bets are judged as if they were called once.
+const judge = (action: ActionType, amount: number, total: number, pot: number, toCall: number, highBet: number, equity: number) => {
+    const share = equity / 100;
+    const callEv = share * (pot + toCall) - toCall;
+    const potOdds = toCall > 0 ? (toCall / (pot + toCall)) * 100 : 0;
+    const isCall = action === 'CALL' || (action === 'ALL_IN' && total <= highBet);
+
+    if (action === 'FOLD') {
+        if (toCall === 0) return { requiredEquity: 0, ev: 0, verdict: 'MISTAKE' as const, note: 'Folded when checking was free.' };
+        const verdict = grade(potOdds, equity);
+        const note =
+            callEv > 0
+                ? `Calling ${toCall} needed ${pct(potOdds)} equity and you had ${pct(equity)}: worth about ${callEv.toFixed(0)} chips.`
+                : `Calling ${toCall} needed ${pct(potOdds)} equity and you had only ${pct(equity)}.`;
+        return { requiredEquity: potOdds, ev: 0, verdict, note };
+    }
+    if (action === 'CHECK') {
+        const strong = equity >= 65;
+        const note = strong ? `With ${pct(equity)} equity a bet would likely have been called by worse hands.` : 'Checking kept the pot small for free.';
+        return { requiredEquity: 0, ev: share * pot, verdict: strong ? ('CLOSE' as const) : ('GOOD' as const), note };
+    }
+    if (isCall) {
+        const verdict = grade(equity, potOdds);
+        const note = `Paid ${amount} into a pot of ${pot + amount}: needed ${pct(potOdds)} equity, had ${pct(equity)}.`;
+        return { requiredEquity: potOdds, ev: callEv, verdict, note };
+    }
+
+    // Bets and raises: judged as if one opponent calls, then by how often they must fold to break even
+    const called = pot + amount + (total - highBet);
+    const ev = share * called - amount;
+    const requiredEquity = (amount / called) * 100;
+    if (ev >= 0) {
+        const note = `Put in ${amount}: needed ${pct(requiredEquity)} equity when called, had ${pct(equity)}. A value ${action === 'RAISE' ? 'raise' : 'bet'}.`;
+        return { requiredEquity, ev, verdict: 'GOOD' as const, note };
+    }
+    const foldsNeeded = (-ev / (pot - ev)) * 100;
+    const note = `Only ${pct(equity)} equity when called, so this pays off if opponents fold more than ${pct(foldsNeeded)} of the time.`;
+    return { requiredEquity, ev, verdict: 'BLUFF' as const, note };
+};
+
+// Reviews every decision the user made in a finished hand, replaying the table before each one. Equity is
+// estimated by sampling the opponents' hands from ranges read off their actions, never from cards they showed.
+export const reviewHand = (hand: HandHistory, random: RandomSource): DecisionReview[] => {
+    const user = hand.seats.find((s) => s.role === PlayerRole.USER);
+    const hole = hand.events.find((e) => e.type === 'DEAL' && e.playerId === user?.playerId);
+    if (!user || hole?.type !== 'DEAL' || hole.cards.length !== 2) return [];
+
+    const frames = buildReplayFrames(hand);
+    const actionFrames = frames.flatMap((f, i) => (f.activePlayerIndex >= 0 ? [i] : []));
+    const actions = hand.events.flatMap((e, i) => (e.type === 'ACTION' ? [{ e, i }] : []));
+
+    return actions.flatMap(({ e, i }, n) => {
+        if (e.playerId !== user.playerId) return [];
+        const before = frames[actionFrames[n] - 1];
+        const hero = before.players[user.playerId];
+        const highBet = Math.max(...before.players.map((p) => p.currentBet));
+        const toCall = Math.min(hero.chips, highBet - hero.currentBet);
+        // Before the flop, players still to act with nothing in the pot usually fold, so only those who have bet count
+        const opponents = before.players
+            .filter((p) => p.id !== user.playerId && (p.status === PlayerStatus.ACTIVE || p.status === PlayerStatus.ALL_IN))
+            .filter((p) => before.phase !== GamePhase.PRE_FLOP || p.currentBet > 0)
+            .map((p) => ({ name: p.name, top: estimateRange(hand.events.slice(0, i), hand.bigBlind, p.id) }));
+        if (opponents.length === 0) return [];
+
+        const equity = equityAgainstRanges(hole.cards, before.communityCards, opponents.map((o) => o.top), random);
+        return [
+            {
+                phase: before.phase,
+                board: before.communityCards,
+                action: e.action,
+                amount: e.amount,
+                total: e.total,
+                pot: before.pot,
+                toCall,
+                potOdds: toCall > 0 ? (toCall / (before.pot + toCall)) * 100 : null,
+                equity,
+                opponents,
+                ...judge(e.action, e.amount, e.total, before.pot, toCall, highBet, equity),
+            },
+        ];
+    });
+};
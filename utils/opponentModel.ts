@@ -0,0 +1,146 @@
+import { GamePhase, GameState, HandHistory, OpponentModel, Player, PlayerTendencies, ShownHand } from '../types.ts';
+import { createBetTracker } from './betTracker.ts';
+
+const MAX_SHOWN_HANDS = 5;
+export const MIN_SAMPLE = 5; // Fewer chances than this say little about a player
+
+type Counters = Omit<PlayerTendencies, 'name' | 'shownHands'>;
+
+const emptyCounters = (): Counters => ({
+    hands: 0,
+    vpip: 0,
+    pfr: 0,
+    threeBets: 0,
+    threeBetChances: 0,
+    bets: 0,
+    calls: 0,
+    cbets: 0,
+    cbetChances: 0,
+    foldsToCbet: 0,
+    cbetsFaced: 0,
+    sawFlop: 0,
+    showdowns: 0,
+    showdownsWon: 0,
+});
+
+// Replays one hand's recorded actions into counters for each player dealt in. Per-hand stats are 0 or 1;
+// bets and calls count every action.
+const countHand = (hand: HandHistory): Map<number, { counters: Counters; shown?: ShownHand }> => {
+    const players = new Map<number, { counters: Counters; shown?: ShownHand }>(
+        hand.seats.map((s) => [s.playerId, { counters: { ...emptyCounters(), hands: 1 } }])
+    );
+    const set = (id: number, stat: keyof Counters) => {
+        const p = players.get(id);
+        if (p) p.counters[stat] = 1;
+    };
+    const add = (id: number, stat: keyof Counters) => {
+        const p = players.get(id);
+        if (p) p.counters[stat]++;
+    };
+    const folded = new Set<number>();
+    const winners = new Set(hand.events.flatMap((e) => (e.type === 'AWARD' ? [e.playerId] : [])));
+
+    let phase = GamePhase.PRE_FLOP;
+    const bets = createBetTracker(hand.bigBlind);
+    let preflopRaises = 0;
+    let preflopRaiser: number | null = null;
+    let cbettor: number | null = null; // The preflop raiser once they bet the flop, until someone raises
+
+    for (const e of hand.events) {
+        const bet = bets.read(e);
+        if (e.type === 'BOARD') {
+            phase = e.phase;
+            if (phase === GamePhase.FLOP) players.forEach((_, id) => !folded.has(id) && set(id, 'sawFlop'));
+        }
+        if (e.type === 'SHOW') {
+            set(e.playerId, 'showdowns');
+            if (winners.has(e.playerId)) set(e.playerId, 'showdownsWon');
+            const p = players.get(e.playerId);
+            if (p) p.shown = { handNumber: hand.handNumber, cards: e.cards, description: e.description, won: winners.has(e.playerId) };
+        }
+        if (e.type !== 'ACTION' || !bet) continue;
+
+        const id = e.playerId;
+        const putIn = e.action !== 'FOLD' && e.action !== 'CHECK';
+        const isRaise = bet.kind === 'BET' || bet.kind === 'RAISE';
+        if (e.action === 'FOLD') folded.add(id);
+        if (isRaise) add(id, 'bets');
+        else if (putIn && e.amount > 0) add(id, 'calls');
+
+        if (phase === GamePhase.PRE_FLOP) {
+            if (putIn) set(id, 'vpip');
+            if (preflopRaises === 1 && id !== preflopRaiser) {
+                set(id, 'threeBetChances');
+                if (isRaise) set(id, 'threeBets');
+            }
+            if (isRaise) {
+                set(id, 'pfr');
+                preflopRaises++;
+                preflopRaiser = id;
+            }
+        } else if (phase === GamePhase.FLOP) {
+            if (id === preflopRaiser && bet.facing === 0) {
+                set(id, 'cbetChances');
+                if (isRaise) {
+                    set(id, 'cbets');
+                    cbettor = id;
+                }
+            } else if (cbettor !== null && id !== cbettor) {
+                set(id, 'cbetsFaced');
+                if (e.action === 'FOLD') set(id, 'foldsToCbet');
+            }
+        }
+        if (isRaise && id !== cbettor) cbettor = null; // A raise turns it into a different pot
+    }
+    return players;
+};
+
+// Adds a finished hand to the session's model. The engine calls this for every hand it resolves, so the
+// model holds every action that went through performAction.
+export const updateOpponentModel = (model: OpponentModel, hand: HandHistory): OpponentModel => {
+    const next: OpponentModel = { ...model };
+    countHand(hand).forEach(({ counters, shown }, id) => {
+        const name = hand.seats.find((s) => s.playerId === id)!.name;
+        const prev = next[id]?.name === name ? next[id] : { ...emptyCounters(), name, shownHands: [] };
+        const summed = Object.fromEntries(
+            (Object.keys(counters) as (keyof Counters)[]).map((stat) => [stat, prev[stat] + counters[stat]])
+        ) as Counters;
+        next[id] = { ...summed, name, shownHands: shown ? [...prev.shownHands, shown].slice(-MAX_SHOWN_HANDS) : prev.shownHands };
+    });
+    return next;
+};
+
+// The player's stats, unless the seat has changed hands since they were recorded
+export const getTendencies = (state: GameState, player: Player): PlayerTendencies | undefined => {
+    const tendencies = state.opponentModel?.[player.id];
+    return tendencies?.name === player.name ? tendencies : undefined;
+};
+
+// A stat as a share of its chances, or undefined until there are enough chances to mean something
+export const rate = (count: number, chances: number): number | undefined => (chances >= MIN_SAMPLE ? count / chances : undefined);
+
+// Aggression factor: bets and raises per call
+export const aggressionFactor = (t: PlayerTendencies): number | undefined =>
+    t.bets + t.calls >= MIN_SAMPLE ? t.bets / Math.max(1, t.calls) : undefined;
+
+// One line on how a player has played this session, for prompts and tooltips
+export const summarizeTendencies = (t: PlayerTendencies): string => {
+    const percent = (count: number, chances: number) => {
+        const value = rate(count, chances);
+        return value === undefined ? 'n/a' : `${Math.round(value * 100)}%`;
+    };
+    const af = aggressionFactor(t);
+    const parts = [
+        `${t.hands} hands`,
+        `VPIP ${percent(t.vpip, t.hands)}`,
+        `PFR ${percent(t.pfr, t.hands)}`,
+        `3-bet ${percent(t.threeBets, t.threeBetChances)}`,
+        `aggression factor ${af === undefined ? 'n/a' : af.toFixed(1)}`,
+        `c-bet ${percent(t.cbets, t.cbetChances)}`,
+        `folds to c-bet ${percent(t.foldsToCbet, t.cbetsFaced)}`,
+        `went to showdown ${percent(t.showdowns, t.sawFlop)} of flops seen`,
+    ];
+    const shown = t.shownHands.map((h) => `${h.cards.map((c) => `${c.display}${c.suit}`).join('')} (${h.description}${h.won ? ', won' : ''})`);
+    if (shown.length > 0) parts.push(`showed ${shown.join(', ')}`);
+    return parts.join(', ');
+};
@@ -0,0 +1,67 @@
+import { BotPersonality, PersonalityProfile } from '../types.ts';
+import { RandomSource } from './random.ts';
+
+export const DEFAULT_PERSONALITY = BotPersonality.SOLID_REGULAR;
+
+export const PERSONALITY_PROFILES: Record<BotPersonality, PersonalityProfile> = {
+    [BotPersonality.TIGHT_PASSIVE]: {
+        label: 'Tight-Passive',
+        badge: 'ROCK',
+        description: 'Waits for premium hands, prefers calling to raising and gives up quickly without a strong hand.',
+        difficulty: 'Easy',
+        vpip: 12,
+        aggression: 0.25,
+        bluffFrequency: 0.05,
+        stickiness: 0.8,
+    },
+    [BotPersonality.LOOSE_AGGRESSIVE]: {
+        label: 'Loose-Aggressive',
+        badge: 'LAG',
+        description: 'Plays a wide range of hands, bets and raises rather than calls, and bluffs regularly.',
+        difficulty: 'Hard',
+        vpip: 35,
+        aggression: 0.8,
+        bluffFrequency: 0.4,
+        stickiness: 1.1,
+    },
+    [BotPersonality.CALLING_STATION]: {
+        label: 'Calling Station',
+        badge: 'CALL',
+        description: 'Plays almost any hand and calls bets with anything that might be good, but rarely raises.',
+        difficulty: 'Easy',
+        vpip: 45,
+        aggression: 0.15,
+        bluffFrequency: 0.05,
+        stickiness: 2,
+    },
+    [BotPersonality.MANIAC]: {
+        label: 'Maniac',
+        badge: 'WILD',
+        description: 'Raises and re-raises with nearly anything and bluffs constantly.',
+        difficulty: 'Medium',
+        vpip: 65,
+        aggression: 0.95,
+        bluffFrequency: 0.6,
+        stickiness: 1.3,
+    },
+    [BotPersonality.SOLID_REGULAR]: {
+        label: 'Solid Regular',
+        badge: 'TAG',
+        description: 'Plays a tight, position-aware range, bets for value and bluffs in balanced spots.',
+        difficulty: 'Hard',
+        vpip: 22,
+        aggression: 0.6,
+        bluffFrequency: 0.25,
+        stickiness: 1,
+    },
+};
+
+// The standard play the others are tuned against
+export const BASE_PROFILE = PERSONALITY_PROFILES[BotPersonality.SOLID_REGULAR];
+
+export const getProfile = (personality?: BotPersonality): PersonalityProfile => PERSONALITY_PROFILES[personality ?? DEFAULT_PERSONALITY];
+
+export const randomPersonality = (random: RandomSource = Math.random): BotPersonality => {
+    const personalities = Object.values(BotPersonality);
+    return personalities[Math.floor(random() * personalities.length)];
+};
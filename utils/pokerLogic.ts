@@ -1,6 +1,8 @@
-import { Card, Suit, HandRank } from '../types.ts';
+import { Card, Suit, HandRank, HandCategory, Player, PlayerStatus, Pot, PotAward } from '../types.ts';
+import { RandomSource, createRng } from './random.ts';
 
-export const createDeck = (): Card[] => {
+// Builds an ordered deck, or a deck shuffled with `random` when one is given
+export const createDeck = (random?: RandomSource): Card[] => {
     const suits = [Suit.HEARTS, Suit.DIAMONDS, Suit.CLUBS, Suit.SPADES];
     const deck: Card[] = [];
 
@@ -14,19 +16,93 @@ export const createDeck = (): Card[] => {
             deck.push({ suit, rank: r, display });
         }
     }
-    return deck;
+    return random ? shuffleDeck(deck, random) : deck;
 };
 
-export const shuffleDeck = (deck: Card[]): Card[] => {
+// The deck for a given seed is always dealt in the same order
+export const createSeededDeck = (seed: number): Card[] => createDeck(createRng(seed));
+
+export const shuffleDeck = (deck: Card[], random: RandomSource = Math.random): Card[] => {
     const newDeck = [...deck];
     for (let i = newDeck.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(random() * (i + 1));
         [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
     }
     return newDeck;
 };
 
-// Simplified Hand Evaluator
+// Splits everything bet this hand into a main pot and ordered side pots.
+// Each pot is capped at an all-in level and only players who matched that level (and did not fold) can win it.
+export const buildPots = (players: Player[]): Pot[] => {
+    const contenders = players.filter((p) => p.totalHandBet > 0 && (p.status === PlayerStatus.ACTIVE || p.status === PlayerStatus.ALL_IN));
+    const levels = Array.from(new Set(contenders.map((p) => p.totalHandBet))).sort((a, b) => a - b);
+    const pots: Pot[] = [];
+
+    let prevLevel = 0;
+    for (const level of levels) {
+        const amount = players.reduce((sum, p) => sum + Math.min(p.totalHandBet, level) - Math.min(p.totalHandBet, prevLevel), 0);
+        const eligiblePlayerIds = contenders.filter((p) => p.totalHandBet >= level).map((p) => p.id);
+        pots.push({ amount, eligiblePlayerIds });
+        prevLevel = level;
+    }
+
+    // Chips folded players put in above the highest live level still belong to the last pot
+    const leftover = players.reduce((sum, p) => sum + Math.max(0, p.totalHandBet - prevLevel), 0);
+    if (leftover > 0 && pots.length > 0) pots[pots.length - 1].amount += leftover;
+
+    return pots;
+};
+
+// Splits a pot evenly between winners. Odd chips that cannot be split go to the
+// first winner left of the button.
+export const splitPot = (amount: number, winnerIds: number[], dealerIndex: number, seatCount: number): PotAward[] => {
+    const seatsFromButton = (id: number) => (id - dealerIndex - 1 + seatCount) % seatCount;
+    const ordered = [...winnerIds].sort((a, b) => seatsFromButton(a) - seatsFromButton(b));
+    const share = Math.floor(amount / ordered.length);
+    const remainder = amount - share * ordered.length;
+    return ordered.map((playerId, idx) => ({ playerId, amount: share + (idx === 0 ? remainder : 0) }));
+};
+
+export const countChips = (players: Player[]): number => players.reduce((sum, p) => sum + p.chips + p.totalHandBet, 0);
+
+// Chips are never created or destroyed: the table total after a hand must match the total it started with.
+// Returns a description of the violation, or null if the invariant holds.
+export const checkChipConservation = (players: Player[], expectedTotal: number): string | null => {
+    const actual = players.reduce((sum, p) => sum + p.chips, 0);
+    if (actual === expectedTotal) return null;
+    return `Chip conservation violated: expected ${expectedTotal} chips at the table, found ${actual} (${actual > expectedTotal ? '+' : ''}${actual - expectedTotal}).`;
+};
+
+// Packs the category and up to five tiebreak ranks into a single base-15 number,
+// so a higher score always means a stronger hand.
+const packScore = (category: HandCategory, tiebreakers: number[]): number => {
+    let score = category;
+    for (let i = 0; i < 5; i++) {
+        score = score * 15 + (tiebreakers[i] || 0);
+    }
+    return score;
+};
+
+const makeRank = (category: HandCategory, tiebreakers: number[], name: string, cards: Card[]): HandRank => ({
+    category,
+    tiebreakers,
+    score: packScore(category, tiebreakers),
+    name,
+    cards,
+});
+
+// Compares two evaluated hands: > 0 if a wins, < 0 if b wins, 0 for a tie.
+export const compareHands = (a: HandRank, b: HandRank): number => {
+    if (a.category !== b.category) return a.category - b.category;
+    const len = Math.max(a.tiebreakers.length, b.tiebreakers.length);
+    for (let i = 0; i < len; i++) {
+        const diff = (a.tiebreakers[i] || 0) - (b.tiebreakers[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+};
+
+// Hand Evaluator
 export const evaluateHand = (holeCards: Card[], communityCards: Card[]): HandRank => {
     const allCards = [...holeCards, ...communityCards].sort((a, b) => b.rank - a.rank);
 
@@ -101,7 +177,7 @@ export const evaluateHand = (holeCards: Card[], communityCards: Card[]): HandRan
         const sfHigh = getStraightHighRank(flushRanks);
         if (sfHigh) {
             const sfCards = getStraightCards(flushCards, sfHigh);
-            return { score: 800 + sfHigh, name: 'Straight Flush', cards: sfCards };
+            return makeRank(HandCategory.STRAIGHT_FLUSH, [sfHigh], 'Straight Flush', sfCards);
         }
     }
 
@@ -110,8 +186,13 @@ export const evaluateHand = (holeCards: Card[], communityCards: Card[]): HandRan
         if (counts[r] === 4) {
             const quadRank = Number(r);
             const quads = getByRank(quadRank);
-            const kicker = getExcluding([quadRank])[0];
-            return { score: 700 + quadRank, name: `Four of a Kind (${quadRank}'s)`, cards: [...quads, kicker] };
+            const kickers = getExcluding([quadRank]).slice(0, 1);
+            return makeRank(
+                HandCategory.FOUR_OF_A_KIND,
+                [quadRank, ...kickers.map((c) => c.rank)],
+                `Four of a Kind (${quadRank}'s)`,
+                [...quads, ...kickers]
+            );
         }
     }
 
@@ -133,20 +214,26 @@ export const evaluateHand = (holeCards: Card[], communityCards: Card[]): HandRan
             const highPair = remaining[0];
             const tripCards = getByRank(highTrip);
             const pairCards = getByRank(highPair).slice(0, 2);
-            return { score: 600 + highTrip, name: `Full House (${highTrip}'s over ${highPair}'s)`, cards: [...tripCards, ...pairCards] };
+            return makeRank(
+                HandCategory.FULL_HOUSE,
+                [highTrip, highPair],
+                `Full House (${highTrip}'s over ${highPair}'s)`,
+                [...tripCards.slice(0, 3), ...pairCards]
+            );
         }
     }
 
     // Check Flush (Score)
     if (flushSuit) {
-        return { score: 500 + flushCards[0].rank, name: 'Flush', cards: flushCards.slice(0, 5) };
+        const bestFlush = flushCards.slice(0, 5);
+        return makeRank(HandCategory.FLUSH, bestFlush.map((c) => c.rank), 'Flush', bestFlush);
     }
 
     // Check Straight
     const straightHigh = getStraightHighRank(ranks);
     if (straightHigh) {
         const straightCards = getStraightCards(allCards, straightHigh);
-        return { score: 400 + straightHigh, name: 'Straight', cards: straightCards };
+        return makeRank(HandCategory.STRAIGHT, [straightHigh], 'Straight', straightCards);
     }
 
     // Check Trips
@@ -154,7 +241,12 @@ export const evaluateHand = (holeCards: Card[], communityCards: Card[]): HandRan
         const tripRank = trips[0];
         const tripCards = getByRank(tripRank);
         const kickers = getExcluding([tripRank]).slice(0, 2);
-        return { score: 300 + tripRank, name: `Three of a Kind (${tripRank}'s)`, cards: [...tripCards, ...kickers] };
+        return makeRank(
+            HandCategory.THREE_OF_A_KIND,
+            [tripRank, ...kickers.map((c) => c.rank)],
+            `Three of a Kind (${tripRank}'s)`,
+            [...tripCards, ...kickers]
+        );
     }
 
     // Check Two Pair
@@ -164,7 +256,13 @@ export const evaluateHand = (holeCards: Card[], communityCards: Card[]): HandRan
         const p1Cards = getByRank(p1);
         const p2Cards = getByRank(p2);
         const kicker = getExcluding([p1, p2])[0];
-        return { score: 200 + p1, name: `Two Pair (${p1}'s and ${p2}'s)`, cards: [...p1Cards, ...p2Cards, kicker] };
+        const kickerCards = kicker ? [kicker] : [];
+        return makeRank(
+            HandCategory.TWO_PAIR,
+            [p1, p2, ...kickerCards.map((c) => c.rank)],
+            `Two Pair (${p1}'s and ${p2}'s)`,
+            [...p1Cards, ...p2Cards, ...kickerCards]
+        );
     }
 
     // Check Pair
@@ -172,9 +270,10 @@ export const evaluateHand = (holeCards: Card[], communityCards: Card[]): HandRan
         const p1 = pairs[0];
         const p1Cards = getByRank(p1);
         const kickers = getExcluding([p1]).slice(0, 3);
-        return { score: 100 + p1, name: `Pair of ${p1}'s`, cards: [...p1Cards, ...kickers] };
+        return makeRank(HandCategory.PAIR, [p1, ...kickers.map((c) => c.rank)], `Pair of ${p1}'s`, [...p1Cards, ...kickers]);
     }
 
     // High Card
-    return { score: ranks[0], name: `High Card (${ranks[0]})`, cards: allCards.slice(0, 5) };
+    const highCards = allCards.slice(0, 5);
+    return makeRank(HandCategory.HIGH_CARD, highCards.map((c) => c.rank), `High Card (${ranks[0]})`, highCards);
 };
@@ -0,0 +1,42 @@
+import { GameState, Player, PlayerStatus } from '../types.ts';
+
+// Names for the seats between the big blind and the button, by how many of them there are
+const MIDDLE_POSITIONS: string[][] = [
+    [],
+    ['UTG'],
+    ['UTG', 'CO'],
+    ['UTG', 'HJ', 'CO'],
+    ['UTG', 'MP', 'HJ', 'CO'],
+    ['UTG', 'UTG+1', 'MP', 'HJ', 'CO'],
+    ['UTG', 'UTG+1', 'UTG+2', 'MP', 'HJ', 'CO'],
+    ['UTG', 'UTG+1', 'UTG+2', 'MP', 'MP+1', 'HJ', 'CO'],
+];
+
+// Dealt into the current hand (folded players keep their position)
+const isDealtIn = (p: Player) => p.hand.length > 0 && p.status !== PlayerStatus.SITTING_OUT && p.status !== PlayerStatus.BUSTED;
+
+// Position name of every player dealt into the hand, keyed by seat: UTG…CO, BTN, SB and BB.
+// Heads-up the button also posts the small blind and is called BTN/SB.
+export const getPositions = (state: GameState): Map<number, string> => {
+    const n = state.players.length;
+    const positions = new Map<number, string>();
+    const middle: number[] = [];
+
+    for (let i = 1; i <= n; i++) {
+        const p = state.players[(state.dealerIndex + i) % n];
+        if (!isDealtIn(p)) continue;
+        if (p.id === state.dealerIndex) positions.set(p.id, p.id === state.smallBlindIndex ? 'BTN/SB' : 'BTN');
+        else if (p.id === state.smallBlindIndex) positions.set(p.id, 'SB');
+        else if (p.id === state.bigBlindIndex) positions.set(p.id, 'BB');
+        else middle.push(p.id);
+    }
+
+    // Seats after the big blind come first in seat order from the button, so rotate them to start at UTG
+    const afterBigBlind = (id: number) => (id - state.bigBlindIndex + n) % n;
+    middle.sort((a, b) => afterBigBlind(a) - afterBigBlind(b));
+    const names = MIDDLE_POSITIONS[Math.min(middle.length, MIDDLE_POSITIONS.length - 1)];
+    middle.forEach((id, i) => positions.set(id, names[i] ?? `MP+${i}`));
+    return positions;
+};
+
+export const positionName = (state: GameState, seat: number): string => getPositions(state).get(seat) ?? '—';
@@ -0,0 +1,35 @@
+// Seedable pseudo-random numbers, so a deal can be reproduced from its seed.
+
+// Returns numbers in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// Seeds are unsigned 32-bit integers
+export const randomSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+// Mulberry32: small, fast and plenty for shuffling cards
+export const createRng = (seed: number): RandomSource => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+};
+
+// Mixes a seed with a counter (e.g. the hand number) into an independent child seed
+export const deriveSeed = (seed: number, n: number): number => {
+    let h = (seed ^ Math.imul(n + 1, 0x9e3779b9)) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+};
+
+// Parses a seed typed by the user; returns null unless it is a whole number in range
+export const parseSeed = (text: string): number | null => {
+    const trimmed = text.trim();
+    if (!/^\d+$/.test(trimmed)) return null;
+    const seed = Number(trimmed);
+    return seed < 0x100000000 ? seed : null;
+};
@@ -0,0 +1,109 @@
+import { Card, GamePhase, HandHistory, Player, PlayerRole, PlayerStatus } from '../types.ts';
+
+// One step of a replay: the table as it looked right after an action or a street was dealt
+export interface ReplayFrame {
+    players: Player[]; // Indexed by seat, like GameState.players; seats not dealt in are BUSTED placeholders
+    communityCards: Card[];
+    pot: number;
+    phase: GamePhase;
+    activePlayerIndex: number; // Seat that just acted, -1 when the frame is not an action
+    shownIds: number[]; // Players who showed their cards at showdown
+    message: string;
+}
+
+const actionLabel = (action: string, total: number, isAllIn: boolean) => {
+    if (isAllIn) return 'All In';
+    if (action === 'FOLD') return 'Fold';
+    if (action === 'CHECK') return 'Check';
+    if (action === 'CALL') return 'Call';
+    return action === 'BET' ? `Bet ${total}` : `Raise to ${total}`;
+};
+
+// Rebuilds the table after every recorded event so a hand can be stepped through. Blinds, antes and
+// hole cards make up the first frame; uncalled bets and pot awards are shown together in the last one.
+export const buildReplayFrames = (hand: HandHistory): ReplayFrame[] => {
+    const dealt = new Map(hand.seats.map((s) => [s.playerId, s]));
+    let players: Player[] = Array.from({ length: hand.seatCount }, (_, id) => {
+        const seat = dealt.get(id);
+        return {
+            id,
+            name: seat?.name ?? `Seat ${id + 1}`,
+            role: seat?.role ?? PlayerRole.BOT,
+            chips: seat?.stack ?? 0,
+            hand: [],
+            status: seat ? PlayerStatus.ACTIVE : PlayerStatus.BUSTED,
+            currentBet: 0,
+            totalHandBet: 0,
+        };
+    });
+    let communityCards: Card[] = [];
+    let pot = 0;
+    let phase = GamePhase.PRE_FLOP;
+    let shownIds: number[] = [];
+    const frames: ReplayFrame[] = [];
+
+    const update = (id: number, changes: Partial<Player>) => {
+        players = players.map((p) => (p.id === id ? { ...p, ...changes } : p));
+    };
+    const push = (message: string, activePlayerIndex = -1) => {
+        frames.push({ players, communityCards, pot, phase, activePlayerIndex, shownIds, message });
+    };
+
+    hand.events.forEach((e, i) => {
+        const next = hand.events[i + 1];
+        switch (e.type) {
+            case 'POST': {
+                const p = players[e.playerId];
+                const isBlind = e.kind !== 'ANTE';
+                update(e.playerId, {
+                    chips: p.chips - e.amount,
+                    currentBet: isBlind ? p.currentBet + e.amount : p.currentBet,
+                    totalHandBet: p.totalHandBet + e.amount,
+                });
+                pot += e.amount;
+                break;
+            }
+            case 'DEAL':
+                update(e.playerId, { hand: e.cards });
+                if (next?.type !== 'DEAL') push(`Hand #${hand.handNumber} dealt`);
+                break;
+            case 'ACTION': {
+                const p = players[e.playerId];
+                update(e.playerId, {
+                    chips: p.chips - e.amount,
+                    currentBet: e.total,
+                    totalHandBet: p.totalHandBet + e.amount,
+                    status: e.action === 'FOLD' ? PlayerStatus.FOLDED : e.isAllIn ? PlayerStatus.ALL_IN : p.status,
+                    lastAction: actionLabel(e.action, e.total, e.isAllIn),
+                });
+                pot += e.amount;
+                push(`${p.name}: ${actionLabel(e.action, e.total, e.isAllIn)}`, e.playerId);
+                break;
+            }
+            case 'BOARD':
+                players = players.map((p) => ({ ...p, currentBet: 0, lastAction: undefined }));
+                communityCards = [...communityCards, ...e.cards];
+                phase = e.phase;
+                push(`Dealing ${e.phase}...`);
+                break;
+            case 'SHOW':
+                shownIds = [...shownIds, e.playerId];
+                update(e.playerId, { lastAction: e.description });
+                phase = GamePhase.SHOWDOWN;
+                if (next?.type !== 'SHOW') push('Showdown');
+                break;
+            case 'UNCALLED':
+            case 'AWARD':
+                update(e.playerId, { chips: players[e.playerId].chips + e.amount, currentBet: 0 });
+                pot -= e.amount;
+                if (!next) {
+                    players = players.map((p) => ({ ...p, currentBet: 0 }));
+                    phase = GamePhase.SHOWDOWN;
+                    const winners = [...new Set(hand.events.flatMap((w) => (w.type === 'AWARD' ? [players[w.playerId].name] : [])))];
+                    push(`${winners.join(', ')} ${winners.length > 1 ? 'split the pot' : 'wins'}`);
+                }
+                break;
+        }
+    });
+    return frames;
+};
@@ -0,0 +1,96 @@
+import { TableConfig, SeatConfig, GameMode, BotStrategyKind, BotPersonality } from '../types.ts';
+import { DEFAULT_PERSONALITY, randomPersonality } from './personalities.ts';
+import { RandomSource } from './random.ts';
+
+export const MIN_SEATS = 2;
+export const MAX_SEATS = 10;
+
+const DEFAULT_STACK = 1000;
+// Bots use Gemini when a key is configured and play by the local rules otherwise
+const DEFAULT_STRATEGY = process.env.API_KEY ? BotStrategyKind.GEMINI : BotStrategyKind.RULES;
+
+export const defaultBotName = (seat: number) => `Bot ${seat + 1}`;
+
+export const DEFAULT_TABLE_CONFIG: TableConfig = {
+    seatCount: 9,
+    smallBlind: 10,
+    bigBlind: 20,
+    ante: 0,
+    userSeat: 0,
+    seats: Array.from({ length: 9 }, (_, i) => ({
+        name: defaultBotName(i),
+        stack: DEFAULT_STACK,
+        strategy: DEFAULT_STRATEGY,
+        personality: DEFAULT_PERSONALITY,
+    })),
+    mode: GameMode.CLASSIC,
+    tournament: { advanceBy: 'HANDS', levelLength: 10, antes: true, bigBlindAnte: false },
+    cash: { minBuyIn: 400, maxBuyIn: 2000 },
+    openAi: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKey: '' },
+    showHandHelper: true,
+};
+
+// Grows or shrinks the seat list to match a new seat count, keeping existing seat settings
+export const resizeTable = (config: TableConfig, seatCount: number): TableConfig => {
+    const count = Math.min(MAX_SEATS, Math.max(MIN_SEATS, seatCount));
+    const stack = config.seats[0]?.stack ?? DEFAULT_STACK;
+    const strategy = config.seats[config.seats.length - 1]?.strategy ?? DEFAULT_STRATEGY;
+    const personality = config.seats[config.seats.length - 1]?.personality ?? DEFAULT_PERSONALITY;
+    const seats: SeatConfig[] = Array.from({ length: count }, (_, i) => config.seats[i] ?? { name: defaultBotName(i), stack, strategy, personality });
+    return { ...config, seatCount: count, seats, userSeat: Math.min(config.userSeat, count - 1) };
+};
+
+// Sets every seat's starting stack at once
+export const setAllStacks = (config: TableConfig, stack: number): TableConfig => ({
+    ...config,
+    seats: config.seats.map((seat) => ({ ...seat, stack })),
+});
+
+// Gives every bot the same strategy
+export const setAllStrategies = (config: TableConfig, strategy: BotStrategyKind): TableConfig => ({
+    ...config,
+    seats: config.seats.map((seat) => ({ ...seat, strategy })),
+});
+
+// Gives every bot the same personality
+export const setAllPersonalities = (config: TableConfig, personality: BotPersonality): TableConfig => ({
+    ...config,
+    seats: config.seats.map((seat) => ({ ...seat, personality })),
+});
+
+// Picks a personality for every seat at random
+export const randomizePersonalities = (config: TableConfig, random: RandomSource = Math.random): TableConfig => ({
+    ...config,
+    seats: config.seats.map((seat) => ({ ...seat, personality: randomPersonality(random) })),
+});
+
+// Returns a list of problems with the configuration (empty when it is playable)
+export const validateTableConfig = (config: TableConfig): string[] => {
+    const errors: string[] = [];
+    if (config.seatCount < MIN_SEATS || config.seatCount > MAX_SEATS) {
+        errors.push(`The table needs between ${MIN_SEATS} and ${MAX_SEATS} seats.`);
+    }
+    if (config.seats.length !== config.seatCount) errors.push('Every seat needs a configuration.');
+    if (!(config.smallBlind > 0)) errors.push('The small blind must be positive.');
+    if (!(config.bigBlind >= config.smallBlind)) errors.push('The big blind must be at least the small blind.');
+    if (!(config.ante >= 0)) errors.push('The ante cannot be negative.');
+    if (config.mode === GameMode.TOURNAMENT && !(config.tournament.levelLength > 0)) {
+        errors.push('Blind levels need a positive length.');
+    }
+    if (config.mode === GameMode.CASH) {
+        const { minBuyIn, maxBuyIn } = config.cash;
+        if (!(minBuyIn > 0) || !(maxBuyIn >= minBuyIn)) errors.push('The buy-in range needs a positive minimum no larger than the maximum.');
+        const userStack = config.seats[config.userSeat]?.stack;
+        if (userStack < minBuyIn || userStack > maxBuyIn) errors.push(`Your buy-in must be between ${minBuyIn} and ${maxBuyIn}.`);
+    }
+    if (config.userSeat < 0 || config.userSeat >= config.seatCount) errors.push('Pick a seat for yourself.');
+    const usesOpenAi = config.seats.some((seat, i) => i !== config.userSeat && seat.strategy === BotStrategyKind.OPENAI);
+    if (usesOpenAi && (!config.openAi.baseUrl.trim() || !config.openAi.model.trim())) {
+        errors.push('The OpenAI-compatible endpoint needs a base URL and a model.');
+    }
+    config.seats.forEach((seat, i) => {
+        if (!(seat.stack > 0)) errors.push(`Seat ${i + 1} needs a starting stack.`);
+        if (i !== config.userSeat && !seat.name.trim()) errors.push(`Seat ${i + 1} needs a name.`);
+    });
+    return errors;
+};
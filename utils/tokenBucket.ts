@@ -0,0 +1,35 @@
+// Token-bucket rate limiter: holds up to `capacity` tokens and refills continuously at `refillPerSecond`.
+// Each request takes one token, so bursts up to the capacity go through and the long-run rate is capped.
+export interface TokenBucket {
+    tryTake: () => boolean; // Takes a token if one is available
+    drain: () => void; // Empties the bucket, e.g. after the server says to slow down
+    available: () => number;
+}
+
+export const createTokenBucket = (capacity: number, refillPerSecond: number, now: () => number = Date.now): TokenBucket => {
+    let tokens = capacity;
+    let updatedAt = now();
+
+    const refill = () => {
+        const t = now();
+        tokens = Math.min(capacity, tokens + ((t - updatedAt) / 1000) * refillPerSecond);
+        updatedAt = t;
+    };
+
+    return {
+        tryTake: () => {
+            refill();
+            if (tokens < 1) return false;
+            tokens -= 1;
+            return true;
+        },
+        drain: () => {
+            refill();
+            tokens = 0;
+        },
+        available: () => {
+            refill();
+            return Math.floor(tokens);
+        },
+    };
+};
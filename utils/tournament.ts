@@ -0,0 +1,100 @@
+import { BlindLevel, BlindSchedule, GameState, GamePhase, TableConfig, TournamentState, FinishingPlace } from '../types.ts';
+import { startHand } from './gameEngine.ts';
+
+// Blind multipliers applied to the starting level
+const LEVEL_MULTIPLIERS = [1, 1.5, 2, 3, 4, 5, 6, 8, 10, 15, 20, 30, 40, 50, 60, 80, 100];
+export const FIRST_ANTE_LEVEL = 3; // Zero-based level index where antes start
+
+// Rounds a blind to a "nice" chip amount for its size
+const roundBlind = (amount: number) => {
+    const unit = amount >= 1000 ? 100 : amount >= 100 ? 25 : amount >= 20 ? 5 : 1;
+    return Math.max(unit, Math.round(amount / unit) * unit);
+};
+
+// Builds a sit-and-go schedule that escalates from the table's starting blinds. Antes (when enabled)
+// start a few levels in: 10% of the big blind per player, or one big blind from the big blind seat.
+export const createBlindSchedule = (config: TableConfig): BlindSchedule => {
+    const options = config.tournament;
+    return {
+        advanceBy: options.advanceBy,
+        levelLength: options.levelLength,
+        levels: LEVEL_MULTIPLIERS.map((m, i): BlindLevel => {
+            const bb = roundBlind(config.bigBlind * m);
+            const hasAnte = options.antes && i >= FIRST_ANTE_LEVEL;
+            return {
+                smallBlind: Math.min(roundBlind(config.smallBlind * m), bb),
+                bigBlind: bb,
+                ante: hasAnte ? (options.bigBlindAnte ? bb : roundBlind(bb / 10)) : 0,
+                bigBlindAnte: hasAnte && options.bigBlindAnte,
+            };
+        }),
+    };
+};
+
+export const createTournamentState = (now: number): TournamentState => ({
+    levelIndex: 0,
+    handNumber: 0,
+    levelStartHand: 0,
+    levelStartedAt: now,
+    finishes: [],
+});
+
+export const currentBlindLevel = (schedule: BlindSchedule, t: TournamentState): BlindLevel =>
+    schedule.levels[Math.min(t.levelIndex, schedule.levels.length - 1)];
+
+const isLastLevel = (schedule: BlindSchedule, t: TournamentState) => t.levelIndex >= schedule.levels.length - 1;
+
+// Hands (or milliseconds) left before the blinds go up, or null on the final level
+export const untilNextLevel = (schedule: BlindSchedule, t: TournamentState, now: number): number | null => {
+    if (isLastLevel(schedule, t)) return null;
+    if (schedule.advanceBy === 'HANDS') {
+        return Math.max(0, t.levelStartHand + schedule.levelLength - t.handNumber);
+    }
+    return Math.max(0, t.levelStartedAt + schedule.levelLength * 60_000 - now);
+};
+
+// Moves to the next level once the current one has run its course. Levels only change between hands.
+const advanceLevel = (schedule: BlindSchedule, t: TournamentState, now: number): TournamentState => {
+    const remaining = untilNextLevel(schedule, t, now);
+    if (remaining === null || remaining > 0) return t;
+    return { ...t, levelIndex: t.levelIndex + 1, levelStartHand: t.handNumber, levelStartedAt: now };
+};
+
+// Records a finishing place for every player who has just run out of chips. Players busting in the
+// same hand are ordered by the stack they started it with (bigger stack finishes higher).
+export const recordFinishes = (state: GameState, t: TournamentState): TournamentState => {
+    const finished = new Set(t.finishes.map((f) => f.playerId));
+    const busted = state.players
+        .filter((p) => p.chips === 0 && !finished.has(p.id))
+        .sort((a, b) => b.totalHandBet - a.totalHandBet);
+    if (busted.length === 0) return t;
+
+    const survivors = state.players.filter((p) => p.chips > 0);
+    const finishes: FinishingPlace[] = busted.map((p, i) => ({
+        playerId: p.id,
+        name: p.name,
+        place: survivors.length + 1 + i,
+        handNumber: t.handNumber,
+    }));
+    if (survivors.length === 1) {
+        const w = survivors[0];
+        finishes.push({ playerId: w.id, name: w.name, place: 1, handNumber: t.handNumber });
+    }
+    return { ...t, finishes: [...t.finishes, ...finishes].sort((a, b) => a.place - b.place) };
+};
+
+// Starts the next tournament hand: records anyone who just busted, raises the blinds when the
+// level is over and deals with the current level's blinds and antes.
+export const startTournamentHand = (state: GameState, schedule: BlindSchedule, now: number, dealerIndex?: number): GameState => {
+    const prev = state.tournament ?? createTournamentState(now);
+    const t = advanceLevel(schedule, recordFinishes(state, prev), now);
+    const next = startHand(state, currentBlindLevel(schedule, t), dealerIndex);
+    const tournament = next.phase === GamePhase.GAME_OVER ? t : { ...t, handNumber: t.handNumber + 1 };
+    const levelUp = t.levelIndex !== prev.levelIndex && next.phase !== GamePhase.GAME_OVER;
+    const level = currentBlindLevel(schedule, t);
+    return {
+        ...next,
+        tournament,
+        message: levelUp ? `Blinds up: ${level.smallBlind}/${level.bigBlind}` : next.message,
+    };
+};